@@ -0,0 +1,25 @@
+-- Authentication: staff users with sessions, and long-lived API keys for devices
+CREATE TABLE users (
+  id serial PRIMARY KEY,
+  username varchar(64) NOT NULL UNIQUE,
+  name varchar(255) NOT NULL,
+  password_hash varchar(255) NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp DEFAULT now()
+);
+CREATE TABLE sessions (
+  id serial PRIMARY KEY,
+  user_id integer NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash varchar(64) NOT NULL UNIQUE,
+  expires_at timestamp NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+CREATE TABLE api_keys (
+  id serial PRIMARY KEY,
+  name varchar(255) NOT NULL,
+  key_hash varchar(64) NOT NULL UNIQUE,
+  key_prefix varchar(16) NOT NULL,
+  last_used_at timestamp,
+  revoked_at timestamp,
+  created_at timestamp DEFAULT now()
+);
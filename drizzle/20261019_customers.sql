@@ -0,0 +1,13 @@
+-- Customers as a first-class entity. orders.customer_name stays as a snapshot of the name at order time.
+CREATE TABLE customers (
+  id serial PRIMARY KEY,
+  name varchar(255) NOT NULL,
+  phone varchar(32),
+  whatsapp varchar(32),
+  address text,
+  notes text,
+  created_at timestamp DEFAULT now()
+);
+ALTER TABLE orders ADD COLUMN customer_id integer REFERENCES customers(id) ON DELETE SET NULL;
+CREATE INDEX orders_customer_id_idx ON orders(customer_id);
+-- Existing orders are linked by name with `pnpm db:backfill:customers`
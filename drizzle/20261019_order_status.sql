@@ -0,0 +1,12 @@
+-- Order status lifecycle: pending -> in_production -> ready -> picked_up (or cancelled)
+ALTER TABLE orders ADD COLUMN status varchar(32) NOT NULL DEFAULT 'pending';
+CREATE TABLE order_status_history (
+  id serial PRIMARY KEY,
+  order_id integer NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status varchar(32) NOT NULL,
+  to_status varchar(32) NOT NULL,
+  changed_by varchar(255),
+  notes text,
+  changed_at timestamp DEFAULT now()
+);
+CREATE INDEX order_status_history_order_id_idx ON order_status_history(order_id);
@@ -0,0 +1,3 @@
+-- Order-level discount and extra fee, used by the pricing module for grand totals
+ALTER TABLE orders ADD COLUMN discount integer NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN fee integer NOT NULL DEFAULT 0;
@@ -0,0 +1,12 @@
+-- Payments: multiple (partial) payments per order, e.g. down payment + settlement at pickup
+CREATE TABLE payments (
+  id serial PRIMARY KEY,
+  order_id integer NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  amount integer NOT NULL,
+  method varchar(16) NOT NULL,
+  reference varchar(255),
+  received_by varchar(255),
+  notes text,
+  paid_at timestamp DEFAULT now()
+);
+CREATE INDEX payments_order_id_idx ON payments(order_id);
@@ -0,0 +1,19 @@
+-- Persistent print queue: every print is stored with its exact bytes and retried with backoff
+CREATE TABLE print_jobs (
+  id serial PRIMARY KEY,
+  kind varchar(32) NOT NULL,
+  order_id integer REFERENCES orders(id) ON DELETE SET NULL,
+  description varchar(255) NOT NULL,
+  device_path varchar(255) NOT NULL,
+  content bytea NOT NULL,
+  status varchar(16) NOT NULL DEFAULT 'queued',
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL,
+  last_error text,
+  next_attempt_at timestamp NOT NULL DEFAULT now(),
+  reprint_of integer,
+  created_by varchar(255),
+  created_at timestamp DEFAULT now(),
+  printed_at timestamp
+);
+CREATE INDEX print_jobs_status_next_attempt_idx ON print_jobs(status, next_attempt_at);
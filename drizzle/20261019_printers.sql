@@ -0,0 +1,15 @@
+-- Printer registry: USB/device-file and network (raw TCP, usually port 9100) printers
+CREATE TABLE printers (
+  id serial PRIMARY KEY,
+  name varchar(64) NOT NULL UNIQUE,
+  transport varchar(16) NOT NULL,
+  device_path varchar(255),
+  host varchar(255),
+  port integer,
+  paper_width integer NOT NULL DEFAULT 80,
+  role varchar(16) NOT NULL DEFAULT 'receipt',
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp DEFAULT now()
+);
+ALTER TABLE print_jobs ADD COLUMN printer_id integer REFERENCES printers(id) ON DELETE SET NULL;
+ALTER TABLE print_jobs ALTER COLUMN device_path DROP NOT NULL;
@@ -0,0 +1,2 @@
+-- Character set each printer is switched to (ESC t) before printing
+ALTER TABLE printers ADD COLUMN code_page varchar(16) NOT NULL DEFAULT 'cp437';
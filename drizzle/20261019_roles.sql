@@ -0,0 +1,6 @@
+-- Roles for staff users and API keys: owner, cashier or kitchen.
+-- Accounts created before roles existed had full access, so they become owners.
+ALTER TABLE users ADD COLUMN role varchar(32) NOT NULL DEFAULT 'owner';
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'cashier';
+ALTER TABLE api_keys ADD COLUMN role varchar(32) NOT NULL DEFAULT 'owner';
+ALTER TABLE api_keys ALTER COLUMN role SET DEFAULT 'cashier';
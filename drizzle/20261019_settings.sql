@@ -0,0 +1,6 @@
+-- Shop-wide settings changed through the API; receipt_logo holds the logo's image ID
+CREATE TABLE settings (
+  key varchar(64) PRIMARY KEY,
+  value text NOT NULL,
+  updated_at timestamp NOT NULL DEFAULT now()
+);
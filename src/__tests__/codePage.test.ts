@@ -0,0 +1,60 @@
+// Pure unit tests: what customers type vs. what the printer can print.
+
+import { decodeText, encodeText, transliterate } from '../services/codePage';
+
+describe('code pages', () => {
+  it('keeps plain Indonesian text as it is', () => {
+    const text = 'Bolu Pandan 2x - Jl. Merdeka No. 17, RT 03/RW 05 (Rp150.000)';
+
+    expect(transliterate(text, 'cp437')).toBe(text);
+    expect(encodeText(text, 'cp437')).toEqual(Buffer.from(text, 'ascii'));
+  });
+
+  it('replaces typographic quotes, dashes and ellipses', () => {
+    expect(transliterate('Tulisan “Selamat Ulang Tahun, Ibu” – jangan terlalu manis…', 'cp437')).toBe(
+      'Tulisan "Selamat Ulang Tahun, Ibu" - jangan terlalu manis...'
+    );
+    expect(transliterate('Kue ‘Lapis’ Legit', 'cp437')).toBe("Kue 'Lapis' Legit");
+  });
+
+  it('keeps typographic characters the code page has', () => {
+    expect(encodeText('“Lunas”', 'wpc1252')).toEqual(Buffer.from([0x93, ...Buffer.from('Lunas'), 0x94]));
+  });
+
+  it('drops emoji together with the space after them', () => {
+    expect(transliterate('Kue ulang tahun 🎂 untuk Adik 👧🏽 ya!', 'cp437')).toBe('Kue ulang tahun untuk Adik ya!');
+    expect(transliterate('🎉🎉 Selamat', 'cp437')).toBe('Selamat');
+    expect(transliterate('Terima kasih ❤️', 'cp437')).toBe('Terima kasih ');
+    expect(transliterate('Bendera 🇮🇩', 'cp437')).toBe('Bendera ');
+  });
+
+  it('prints accented letters from the page or without the accent', () => {
+    expect(encodeText('Café Bakery', 'cp437')).toEqual(Buffer.from([...Buffer.from('Caf'), 0x82, ...Buffer.from(' Bakery')]));
+    expect(transliterate('Dapur Ōma — Łódź', 'cp437')).toBe('Dapur Oma - Lódz');
+    expect(transliterate('Crème brûlée', 'wpc1252')).toBe('Crème brûlée');
+  });
+
+  it('replaces other scripts with question marks, one per character', () => {
+    expect(transliterate('Bakpao 包子', 'cp437')).toBe('Bakpao ??');
+    expect(transliterate('Kue سلام', 'cp437')).toBe('Kue ????');
+  });
+
+  it('never passes control characters through', () => {
+    const encoded = encodeText('Budi\x1B@\x1DV\x00\tAni\nWati', 'cp437');
+
+    expect([...encoded].some((byte) => byte < 0x20)).toBe(false);
+    expect(encoded.toString('latin1')).toBe('Budi?@?V? Ani Wati');
+  });
+
+  it('normalizes spaces and fractions', () => {
+    expect(transliterate('Rp 25.000 untuk ⅓ loyang', 'wpc1252')).toBe('Rp 25.000 untuk 1/3 loyang');
+    expect(transliterate('Rp 25.000', 'cp437')).toBe('Rp 25.000');
+  });
+
+  it('decodes what it encodes', () => {
+    const text = 'Café ½ porsi, 25°C';
+
+    expect(decodeText(encodeText(text, 'cp437'), 'cp437')).toBe(text);
+    expect(decodeText(encodeText(text, 'wpc1252'), 'wpc1252')).toBe(text);
+  });
+});
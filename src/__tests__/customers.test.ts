@@ -0,0 +1,189 @@
+import { db, closeConnection } from '../db';
+import { customers, orders, products } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { backfillCustomersFromOrders, normalizeCustomerName } from '../services/customers';
+import { authenticatedAgent, AuthenticatedAgent } from './helpers/auth';
+
+// Integration tests for customer endpoints and customer-linked orders
+
+describe('Customers Routes', () => {
+  let api: AuthenticatedAgent;
+
+  beforeAll(async () => {
+    api = await authenticatedAgent();
+  });
+
+  let testProductId: number;
+
+  beforeAll(async () => {
+    const result = await db.insert(products).values({
+      name: 'Test Product for Customers',
+      price: 20000,
+    }).returning();
+    testProductId = result[0].id;
+  });
+
+  afterAll(async () => {
+    await closeConnection();
+  });
+
+  describe('CRUD', () => {
+    let customerId: number;
+
+    it('should create a customer', async () => {
+      const res = await api
+        .post('/api/customers')
+        .send({
+          name: 'Ibu Ani',
+          phone: '081234567890',
+          notes: 'Alergi kacang',
+        })
+        .expect(201);
+
+      expect(res.body.success).toBe(true);
+      expect(typeof res.body.data.id).toBe('number');
+      expect(res.body.data.name).toBe('Ibu Ani');
+      expect(res.body.data.notes).toBe('Alergi kacang');
+      customerId = res.body.data.id;
+    });
+
+    it('should validate phone numbers', async () => {
+      const res = await api
+        .post('/api/customers')
+        .send({ name: 'Bad Phone', phone: 'call me' })
+        .expect(400);
+
+      expect(res.body.success).toBe(false);
+    });
+
+    it('should search customers by name or phone', async () => {
+      const byName = await api.get('/api/customers?search=ibu%20ani').expect(200);
+      expect(byName.body.data.some((c: any) => c.id === customerId)).toBe(true);
+
+      const byPhone = await api.get('/api/customers?search=1234567890').expect(200);
+      expect(byPhone.body.data.some((c: any) => c.id === customerId)).toBe(true);
+    });
+
+    it('should update a customer', async () => {
+      const res = await api
+        .put(`/api/customers/${customerId}`)
+        .send({ whatsapp: '081234567890' })
+        .expect(200);
+
+      expect(res.body.data.whatsapp).toBe('081234567890');
+      expect(res.body.data.name).toBe('Ibu Ani');
+    });
+
+    it('should return 404 for non-existent customer', async () => {
+      await api.get('/api/customers/999999').expect(404);
+    });
+
+    it('should delete a customer but keep their orders', async () => {
+      const orderRes = await api
+        .post('/api/orders')
+        .send({
+          customerId,
+          items: [{ itemType: 'product', productId: testProductId, amount: 1 }],
+        })
+        .expect(201);
+
+      await api.delete(`/api/customers/${customerId}`).expect(200);
+
+      const getRes = await api.get(`/api/orders/${orderRes.body.data.id}`).expect(200);
+      expect(getRes.body.data.customerId).toBeNull();
+      expect(getRes.body.data.customerName).toBe('Ibu Ani');
+    });
+  });
+
+  describe('orders with customers', () => {
+    it('should link an order to an existing customer by customerId', async () => {
+      const customer = await db.insert(customers).values({ name: 'Pak Budi' }).returning();
+
+      const res = await api
+        .post('/api/orders')
+        .send({
+          customerId: customer[0].id,
+          items: [{ itemType: 'product', productId: testProductId, amount: 1 }],
+        })
+        .expect(201);
+
+      expect(res.body.data.customerId).toBe(customer[0].id);
+      expect(res.body.data.customerName).toBe('Pak Budi');
+    });
+
+    it('should create a customer from inline data', async () => {
+      const res = await api
+        .post('/api/orders')
+        .send({
+          customer: { name: 'Citra', whatsapp: '+62 812-0000-1111' },
+          items: [{ itemType: 'product', productId: testProductId, amount: 2 }],
+        })
+        .expect(201);
+
+      expect(typeof res.body.data.customerId).toBe('number');
+      expect(res.body.data.customerName).toBe('Citra');
+
+      const customer = await db.query.customers.findFirst({
+        where: eq(customers.id, res.body.data.customerId),
+      });
+      expect(customer?.whatsapp).toBe('+62 812-0000-1111');
+    });
+
+    it('should reject an unknown customerId', async () => {
+      const res = await api
+        .post('/api/orders')
+        .send({
+          customerId: 999999,
+          items: [{ itemType: 'product', productId: testProductId, amount: 1 }],
+        })
+        .expect(400);
+
+      expect(res.body.success).toBe(false);
+    });
+
+    it('should return the customer order history', async () => {
+      const customer = await db.insert(customers).values({ name: 'Dewi' }).returning();
+
+      for (let i = 0; i < 2; i++) {
+        await api
+          .post('/api/orders')
+          .send({
+            customerId: customer[0].id,
+            items: [{ itemType: 'product', productId: testProductId, amount: i + 1 }],
+          })
+          .expect(201);
+      }
+
+      const res = await api
+        .get(`/api/customers/${customer[0].id}/orders`)
+        .expect(200);
+
+      expect(res.body.data.customer.id).toBe(customer[0].id);
+      expect(res.body.data.orders.length).toBe(2);
+      expect(res.body.data.orders[0].items[0].amount).toBe(2);
+    });
+  });
+
+  describe('backfill', () => {
+    it('normalizes names for matching', () => {
+      expect(normalizeCustomerName('  Ibu   ANI ')).toBe('ibu ani');
+    });
+
+    it('should link unlinked orders to customers with matching names', async () => {
+      const name = `Backfill ${Date.now()}`;
+      const created = await db.insert(orders).values([
+        { customerName: name },
+        { customerName: ` ${name.toUpperCase()} ` },
+      ]).returning();
+
+      const result = await backfillCustomersFromOrders();
+      expect(result.linked).toBeGreaterThanOrEqual(2);
+
+      const linked = await Promise.all(
+        created.map((o) => db.query.orders.findFirst({ where: eq(orders.id, o.id) }))
+      );
+      expect(linked[0]?.customerId).toBeTruthy();
+      expect(linked[0]?.customerId).toBe(linked[1]?.customerId);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+// Pure unit tests: the builder only produces bytes.
+
+import { EscPosBuilder, wrapText } from '../services/escpos';
+
+// ESC @, then ESC t 0 for the default code page (cp437)
+const INIT = [0x1b, 0x40, 0x1b, 0x74, 0x00];
+
+function bytes(builder: EscPosBuilder): number[] {
+  return [...builder.build()];
+}
+
+function ascii(text: string): number[] {
+  return [...Buffer.from(text, 'latin1')];
+}
+
+describe('EscPosBuilder', () => {
+  it('starts with init', () => {
+    expect(bytes(new EscPosBuilder(32))).toEqual(INIT);
+    expect(bytes(new EscPosBuilder(32, 'wpc1252'))).toEqual([0x1b, 0x40, 0x1b, 0x74, 16]);
+  });
+
+  it('encodes text in the code page', () => {
+    expect(bytes(new EscPosBuilder(32).text('Café'))).toEqual([...INIT, ...ascii('Caf'), 0x82]);
+    expect(bytes(new EscPosBuilder(32, 'wpc1252').text('Café'))).toEqual([
+      0x1b, 0x40, 0x1b, 0x74, 16,
+      ...ascii('Caf'),
+      0xe9,
+    ]);
+  });
+
+  it('measures rows after transliteration', () => {
+    const doc = new EscPosBuilder(20).row('Kue 🎂 ulang tahun…', 'Rp5');
+
+    expect(doc.build().subarray(INIT.length).toString('latin1')).toBe(
+      'Kue ulang        Rp5\n' +
+      'tahun...\n'
+    );
+  });
+
+  it('emits text styles', () => {
+    const doc = new EscPosBuilder(32)
+      .align('center')
+      .bold()
+      .underline(2)
+      .size(2, 3)
+      .text('Hi')
+      .bold(false)
+      .underline(false)
+      .size(1);
+
+    expect(bytes(doc)).toEqual([
+      ...INIT,
+      0x1b, 0x61, 0x01,
+      0x1b, 0x45, 0x01,
+      0x1b, 0x2d, 0x02,
+      0x1d, 0x21, 0x12,
+      ...ascii('Hi'),
+      0x1b, 0x45, 0x00,
+      0x1b, 0x2d, 0x00,
+      0x1d, 0x21, 0x00,
+    ]);
+  });
+
+  it('sizes the separator to the paper width and text size', () => {
+    expect(bytes(new EscPosBuilder(32).separator())).toEqual([...INIT, ...ascii('-'.repeat(32)), 0x0a]);
+    expect(bytes(new EscPosBuilder(48).size(2).separator('='))).toEqual([
+      ...INIT,
+      0x1d, 0x21, 0x11,
+      ...ascii('='.repeat(24)),
+      0x0a,
+    ]);
+  });
+
+  it('puts the right column flush with the edge', () => {
+    const doc = new EscPosBuilder(20).row('TOTAL', 'Rp20.000');
+
+    expect(bytes(doc)).toEqual([...INIT, ...ascii('TOTAL       Rp20.000'), 0x0a]);
+  });
+
+  it('wraps long left text under the first line', () => {
+    const doc = new EscPosBuilder(20).row('Bolu pandan keju spesial', 'Rp9.000');
+
+    expect(doc.build().subarray(INIT.length).toString('latin1')).toBe(
+      'Bolu pandan  Rp9.000\n' +
+      'keju spesial\n'
+    );
+  });
+
+  it('gives a right column that is too wide a line of its own', () => {
+    const doc = new EscPosBuilder(10).row('TOTAL', 'Rp1.000.000');
+
+    expect(doc.build().subarray(INIT.length).toString('latin1')).toBe('TOTAL\nRp1.000.000\n');
+  });
+
+  it('feeds and cuts', () => {
+    expect(bytes(new EscPosBuilder(32).feed(2).cut())).toEqual([...INIT, 0x0a, 0x0a, 0x1d, 0x56, 0x00]);
+    expect(bytes(new EscPosBuilder(32).cut(true))).toEqual([...INIT, 0x1d, 0x56, 0x01]);
+  });
+
+  it('prints a CODE128 barcode', () => {
+    const doc = new EscPosBuilder(32).barcode('ORD-42', { height: 60, width: 3, hri: 'none' });
+
+    expect(bytes(doc)).toEqual([
+      ...INIT,
+      0x1d, 0x68, 60,
+      0x1d, 0x77, 3,
+      0x1d, 0x48, 0,
+      0x1d, 0x6b, 73, 8,
+      ...ascii('{BORD-42'),
+      0x0a,
+    ]);
+  });
+
+  it('escapes braces in CODE128 data', () => {
+    const doc = new EscPosBuilder(32).barcode('A{B}', { hri: 'none' });
+
+    expect(bytes(doc).slice(INIT.length + 9)).toEqual([0x1d, 0x6b, 73, 7, ...ascii('{BA{{B}'), 0x0a]);
+    expect(() => new EscPosBuilder(32).barcode('{'.repeat(127))).toThrow();
+  });
+
+  it('rejects barcode data the printer cannot encode', () => {
+    expect(() => new EscPosBuilder(32).barcode('')).toThrow();
+    expect(() => new EscPosBuilder(32).barcode('Rp 10.000 – lunas')).toThrow();
+  });
+
+  it('prints a QR code', () => {
+    const doc = new EscPosBuilder(32).qr('lnq:order:42', { size: 4, errorCorrection: 'Q' });
+    const data = ascii('lnq:order:42');
+
+    expect(bytes(doc)).toEqual([
+      ...INIT,
+      0x1d, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00,
+      0x1d, 0x28, 0x6b, 3, 0, 0x31, 0x43, 4,
+      0x1d, 0x28, 0x6b, 3, 0, 0x31, 0x45, 50,
+      0x1d, 0x28, 0x6b, data.length + 3, 0, 0x31, 0x50, 0x30,
+      ...data,
+      0x1d, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30,
+      0x0a,
+    ]);
+  });
+
+  it('rejects QR data beyond the capacity of the error correction level', () => {
+    expect(() => new EscPosBuilder(32).qr('x'.repeat(2953), { errorCorrection: 'L' })).not.toThrow();
+    expect(() => new EscPosBuilder(32).qr('x'.repeat(2954), { errorCorrection: 'L' })).toThrow();
+    expect(() => new EscPosBuilder(32).qr('x'.repeat(2332))).toThrow('1-2331 bytes at error correction M');
+    expect(() => new EscPosBuilder(32).qr('x'.repeat(1274), { errorCorrection: 'H' })).toThrow();
+  });
+
+  it('prints a raster image', () => {
+    const image = { width: 10, height: 2, data: Buffer.from([0xff, 0xc0, 0x80, 0x40]) };
+
+    expect(bytes(new EscPosBuilder(32).raster(image))).toEqual([
+      ...INIT,
+      0x1d, 0x76, 0x30, 0, 2, 0, 2, 0,
+      0xff, 0xc0, 0x80, 0x40,
+    ]);
+  });
+
+  it('rejects raster data that does not match the image size', () => {
+    expect(() => new EscPosBuilder(32).raster({ width: 16, height: 2, data: Buffer.alloc(3) })).toThrow();
+    expect(() => new EscPosBuilder(32).raster({ width: 8, height: 0, data: Buffer.alloc(0) })).toThrow();
+  });
+});
+
+describe('wrapText', () => {
+  it('breaks at spaces and inside words longer than a line', () => {
+    expect(wrapText('Tart ulang tahun', 10)).toEqual(['Tart ulang', 'tahun']);
+    expect(wrapText('Supercalifragilistic', 8)).toEqual(['Supercal', 'ifragili', 'stic']);
+    expect(wrapText('', 8)).toEqual(['']);
+  });
+
+  it('keeps the indentation of the first line', () => {
+    expect(wrapText('  2 x Rp12.000', 20)).toEqual(['  2 x Rp12.000']);
+    expect(wrapText('  Bolu pandan keju', 12)).toEqual(['  Bolu', 'pandan keju']);
+  });
+});
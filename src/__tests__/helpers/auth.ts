@@ -0,0 +1,14 @@
+import request from 'supertest';
+import app from '../../index';
+import { createApiKey } from '../../services/auth';
+import { Role } from '../../services/permissions';
+
+export type AuthenticatedAgent = ReturnType<typeof request.agent>;
+
+/**
+ * Supertest agent that sends a freshly created API key with every request.
+ */
+export async function authenticatedAgent(role: Role = 'owner'): Promise<AuthenticatedAgent> {
+  const { key } = await createApiKey(`Test suite (${role})`, role);
+  return request.agent(app).set('Authorization', `Bearer ${key}`);
+}
@@ -0,0 +1,9 @@
+import sharp from 'sharp';
+
+/**
+ * A real PNG for upload tests, since uploads are checked by content. Different
+ * sizes give different image IDs.
+ */
+export async function testPng(width = 8, height = 8): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#c08040' } }).png().toBuffer();
+}
@@ -0,0 +1,72 @@
+// Pure unit tests: images are made and checked in memory.
+
+import sharp from 'sharp';
+import { detectImageType, getImageObjectName, getImageTypeFromMime, sanitizeImage } from '../services/imageContent';
+
+async function photo(format: 'jpeg' | 'png' | 'gif' | 'webp', width = 40, height = 20): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#c08040' } }).toFormat(format).toBuffer();
+}
+
+describe('image content', () => {
+  it('detects the type from magic bytes', async () => {
+    for (const format of ['jpeg', 'png', 'gif', 'webp'] as const) {
+      expect(detectImageType(await photo(format))).toBe(format);
+    }
+
+    expect(detectImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+    expect(detectImageType(Buffer.from('RIFF0000WAVE'))).toBeNull();
+    expect(detectImageType(Buffer.alloc(0))).toBeNull();
+  });
+
+  it('maps MIME types to image types', () => {
+    expect(getImageTypeFromMime('image/jpeg')).toBe('jpeg');
+    expect(getImageTypeFromMime('image/webp')).toBe('webp');
+    expect(getImageTypeFromMime('image/svg+xml')).toBeNull();
+  });
+
+  it('strips EXIF and turns photos upright', async () => {
+    // A phone photo stored sideways, with orientation 6 (rotate 90 degrees) and a location
+    const original = await sharp(await photo('jpeg', 40, 20))
+      .withExif({ IFD0: { Make: 'Phone' }, IFD3: { GPSLatitudeRef: 'S', GPSLatitude: '6/1 10/1 0/1' } })
+      .withMetadata({ orientation: 6 })
+      .jpeg()
+      .toBuffer();
+    expect((await sharp(original).metadata()).exif).toBeDefined();
+
+    const clean = await sanitizeImage(original, 'jpeg');
+    const metadata = await sharp(clean).metadata();
+
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+    expect([metadata.width, metadata.height]).toEqual([20, 40]);
+  });
+
+  it('keeps the format and the frames of animations', async () => {
+    const png = await sanitizeImage(await photo('png'), 'png');
+    expect((await sharp(png).metadata()).format).toBe('png');
+
+    const frame = (background: string) =>
+      sharp({ create: { width: 10, height: 10, channels: 3, background } }).png().toBuffer();
+    const animation = await sharp([await frame('#ff0000'), await frame('#0000ff')], { join: { animated: true } })
+      .gif()
+      .toBuffer();
+
+    const clean = await sharp(await sanitizeImage(animation, 'gif'), { animated: true }).metadata();
+    expect(clean.format).toBe('gif');
+    expect(clean.pages).toBe(2);
+  });
+
+  it('rejects images that are not what they claim to be', async () => {
+    await expect(sanitizeImage(await photo('png'), 'jpeg')).rejects.toThrow('Expected jpeg image, got png');
+    await expect(sanitizeImage(Buffer.from([0xff, 0xd8, 0xff, 0x00]), 'jpeg')).rejects.toThrow();
+  });
+
+  it('names images after their content', async () => {
+    const image = await photo('png');
+
+    expect(getImageObjectName(image, 'png')).toMatch(/^[0-9a-f]{64}\.png$/);
+    expect(getImageObjectName(image, 'png')).toBe(getImageObjectName(Buffer.from(image), 'png'));
+    expect(getImageObjectName(await photo('png', 41), 'png')).not.toBe(getImageObjectName(image, 'png'));
+  });
+});
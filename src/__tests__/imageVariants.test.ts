@@ -0,0 +1,100 @@
+// Pure unit tests: variants are rendered in memory, nothing is stored in MinIO.
+
+import sharp from 'sharp';
+import {
+  buildImageVariants,
+  getVariantObjectName,
+  getVariantObjectNames,
+  pickVariantForWidth,
+} from '../services/imageVariants';
+import { imageQuerySchema } from '../validators';
+
+async function photo(width: number, height: number, format: 'jpeg' | 'png' | 'webp'): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#c08040' } }).toFormat(format).toBuffer();
+}
+
+describe('image variants', () => {
+  it('names variants after the image', () => {
+    expect(getVariantObjectName('1-cake.jpeg', 'original', 'original')).toBe('1-cake.jpeg');
+    expect(getVariantObjectName('1-cake.jpeg', 'original', 'webp')).toBe('variants/1-cake.jpeg/original.webp');
+    expect(getVariantObjectName('1-cake.jpeg', 'thumbnail', 'original')).toBe('variants/1-cake.jpeg/thumbnail');
+    expect(getVariantObjectName('1-cake.jpeg', 'medium', 'webp')).toBe('variants/1-cake.jpeg/medium.webp');
+    expect(getVariantObjectNames('1-cake.jpeg')).toHaveLength(5);
+    expect(getVariantObjectNames('1-cake.jpeg')).not.toContain('1-cake.jpeg');
+  });
+
+  it('picks the smallest variant that is wide enough', () => {
+    expect(pickVariantForWidth(100)).toBe('thumbnail');
+    expect(pickVariantForWidth(256)).toBe('thumbnail');
+    expect(pickVariantForWidth(257)).toBe('medium');
+    expect(pickVariantForWidth(2000)).toBe('original');
+  });
+
+  it('resizes into the original format and WebP', async () => {
+    const variants = await buildImageVariants('1-cake.jpeg', await photo(2000, 1000, 'jpeg'));
+
+    const sizes = await Promise.all(
+      variants.map(async ({ objectName, buffer, contentType }) => {
+        const { width, format } = await sharp(buffer).metadata();
+        return { objectName, contentType, width, format };
+      })
+    );
+
+    expect(sizes).toEqual([
+      { objectName: 'variants/1-cake.jpeg/thumbnail', contentType: 'image/jpeg', width: 256, format: 'jpeg' },
+      { objectName: 'variants/1-cake.jpeg/thumbnail.webp', contentType: 'image/webp', width: 256, format: 'webp' },
+      { objectName: 'variants/1-cake.jpeg/medium', contentType: 'image/jpeg', width: 1024, format: 'jpeg' },
+      { objectName: 'variants/1-cake.jpeg/medium.webp', contentType: 'image/webp', width: 1024, format: 'webp' },
+      { objectName: 'variants/1-cake.jpeg/original.webp', contentType: 'image/webp', width: 2000, format: 'webp' },
+    ]);
+  });
+
+  it('never enlarges small images and reuses WebP originals', async () => {
+    const variants = await buildImageVariants('2-icon.webp', await photo(100, 100, 'webp'));
+
+    expect(variants.map((v) => v.objectName)).not.toContain('variants/2-icon.webp/original.webp');
+    for (const { buffer } of variants) {
+      expect((await sharp(buffer).metadata()).width).toBe(100);
+    }
+  });
+
+  it('keeps every frame of an animated GIF', async () => {
+    const [width, height, frames] = [600, 300, 3];
+    const pixels = Buffer.alloc(width * height * frames * 3);
+    // A different colour per frame, identical frames would be merged
+    for (let frame = 0; frame < frames; frame++) {
+      pixels.fill(frame * 100, frame * width * height * 3, (frame + 1) * width * height * 3);
+    }
+    const gif = await sharp(pixels, { raw: { width, height: height * frames, channels: 3, pageHeight: height } })
+      .gif()
+      .toBuffer();
+
+    const variants = await buildImageVariants('4-sparkle.gif', gif);
+
+    expect(variants).toHaveLength(5);
+    for (const { buffer } of variants) {
+      expect((await sharp(buffer).metadata()).pages).toBe(frames);
+    }
+  });
+
+  it('rejects data that is not an image', async () => {
+    await expect(buildImageVariants('3-fake.png', Buffer.from('fake'))).rejects.toThrow();
+  });
+});
+
+describe('image query', () => {
+  it('selects a variant by name or display width', () => {
+    expect(imageQuerySchema.parse({})).toEqual({ variant: 'original', format: 'original' });
+    expect(imageQuerySchema.parse({ variant: 'medium', format: 'webp' })).toEqual({ variant: 'medium', format: 'webp' });
+    expect(imageQuerySchema.parse({ width: '200' })).toEqual({ variant: 'thumbnail', format: 'original' });
+  });
+
+  it('rejects unknown variants, formats and widths', () => {
+    expect(imageQuerySchema.safeParse({ variant: 'huge' }).success).toBe(false);
+    expect(imageQuerySchema.safeParse({ format: 'avif' }).success).toBe(false);
+    expect(imageQuerySchema.safeParse({ width: '0' }).success).toBe(false);
+    expect(imageQuerySchema.safeParse({ width: 'wide' }).success).toBe(false);
+    expect(imageQuerySchema.safeParse({ width: '9999' }).success).toBe(false);
+    expect(imageQuerySchema.safeParse({ variant: 'thumbnail', width: '200' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,278 @@
+import request from 'supertest';
+import app from '../index';
+import { db, closeConnection } from '../db';
+import { products } from '../db/schema';
+import { Readable } from 'stream';
+import minioClient, { deleteImage, listImages } from '../services/minio';
+import { MAX_CLEANUP_INTERVAL_HOURS, startImageCleanup, stopImageCleanup } from '../services/imageCleanup';
+import { authenticatedAgent, AuthenticatedAgent } from './helpers/auth';
+import { testPng } from './helpers/images';
+
+// Integration tests for the image management endpoints. MinIO is not available in
+// tests: uploads return an ID without storing anything (see services/minio.ts).
+
+jest.mock('../services/minio', () => {
+  const actual = jest.requireActual('../services/minio');
+  // Spreading drops the non-enumerable __esModule flag, without which the default
+  // import (the MinIO client) would resolve to this whole object
+  return {
+    __esModule: true,
+    ...actual,
+    default: actual.default,
+    deleteImage: jest.fn().mockResolvedValue(undefined),
+    listImages: jest.fn().mockResolvedValue([]),
+  };
+});
+
+describe('Image Routes', () => {
+  const deleteImageMock = deleteImage as jest.Mock;
+  const listImagesMock = listImages as jest.Mock;
+  let api: AuthenticatedAgent;
+
+  beforeAll(async () => {
+    api = await authenticatedAgent();
+  });
+
+  beforeEach(() => {
+    deleteImageMock.mockClear();
+  });
+
+  afterAll(async () => {
+    await closeConnection();
+  });
+
+  it('POST /api/images should upload an image and return its ID', async () => {
+    const res = await api.post('/api/images').attach('image', await testPng(), 'cake.png').expect(201);
+
+    expect(res.body.success).toBe(true);
+    expect(res.body.data.imageId).toMatch(/^[0-9a-f]{64}\.png$/);
+    expect(res.body.data.url).toContain(res.body.data.imageId);
+  });
+
+  it('POST /api/images should give the same image the same ID', async () => {
+    const first = await api.post('/api/images').attach('image', await testPng(5, 5), 'a.png').expect(201);
+    const second = await api.post('/api/images').attach('image', await testPng(5, 5), 'b.png').expect(201);
+
+    expect(second.body.data.imageId).toBe(first.body.data.imageId);
+  });
+
+  it('POST /api/images should reject missing and non-image files', async () => {
+    await api.post('/api/images').expect(400);
+    await api.post('/api/images').attach('image', Buffer.from('text'), 'notes.txt').expect(400);
+  });
+
+  it('POST /api/images should check the content, not the claimed type', async () => {
+    const fake = await api
+      .post('/api/images')
+      .attach('image', Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'), 'logo.png')
+      .expect(400);
+    expect(fake.body.errors.image).toBe('Only image files are allowed');
+
+    const mismatch = await api
+      .post('/api/images')
+      .attach('image', await testPng(), { filename: 'photo.jpg', contentType: 'image/jpeg' })
+      .expect(400);
+    expect(mismatch.body.errors.image).toBe('File is a png image, not image/jpeg');
+  });
+
+  it('GET /api/images should list images for staff only', async () => {
+    const res = await api.get('/api/images').expect(200);
+    expect(Array.isArray(res.body.data)).toBe(true);
+
+    await request(app).get('/api/images').expect(401);
+  });
+
+  it('DELETE /api/images/:filename should delete an unused image', async () => {
+    const upload = await api.post('/api/images').attach('image', await testPng(6, 6), 'unused.png').expect(201);
+
+    await api.delete(`/api/images/${upload.body.data.imageId}`).expect(200);
+    expect(deleteImageMock).toHaveBeenCalledWith(upload.body.data.imageId);
+  });
+
+  it('DELETE /api/images/:filename should refuse to delete an image a product uses', async () => {
+    const upload = await api.post('/api/images').attach('image', await testPng(7, 7), 'used.png').expect(201);
+    const { imageId } = upload.body.data;
+    const [product] = await db.insert(products).values({ name: 'Photo Cake', price: 10000, imageId }).returning();
+
+    const res = await api.delete(`/api/images/${imageId}`).expect(409);
+
+    // Same content, same ID: products from earlier runs may use it too
+    expect(res.body.productIds).toContain(product.id);
+    expect(res.body.receiptLogo).toBe(false);
+    expect(deleteImageMock).not.toHaveBeenCalled();
+  });
+
+  describe('startImageCleanup', () => {
+    const originalInterval = process.env.IMAGE_CLEANUP_INTERVAL_HOURS;
+
+    afterEach(() => {
+      stopImageCleanup();
+      jest.restoreAllMocks();
+      if (originalInterval === undefined) {
+        delete process.env.IMAGE_CLEANUP_INTERVAL_HOURS;
+      } else {
+        process.env.IMAGE_CLEANUP_INTERVAL_HOURS = originalInterval;
+      }
+    });
+
+    it('should clamp intervals longer than a timer can wait', () => {
+      process.env.IMAGE_CLEANUP_INTERVAL_HOURS = '1000';
+      const setIntervalSpy = jest.spyOn(global, 'setInterval');
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      startImageCleanup();
+
+      const delay = setIntervalSpy.mock.calls[0][1] as number;
+      expect(delay).toBe(MAX_CLEANUP_INTERVAL_HOURS * 60 * 60 * 1000);
+      expect(delay).toBeLessThanOrEqual(2 ** 31 - 1);
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/images/cleanup', () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const usedId = `${Date.now()}-cleanup-used.png`;
+    const orphanId = `${Date.now()}-cleanup-orphan.png`;
+    const recentId = `${Date.now()}-cleanup-recent.png`;
+
+    beforeAll(async () => {
+      await db.insert(products).values({ name: 'Cleanup Cake', price: 10000, imageId: usedId });
+    });
+
+    beforeEach(() => {
+      listImagesMock.mockResolvedValue([
+        { imageId: recentId, size: 10, lastModified: new Date() },
+        { imageId: orphanId, size: 20, lastModified: daysAgo(3) },
+        { imageId: usedId, size: 30, lastModified: daysAgo(3) },
+      ]);
+    });
+
+    it('should only report unused images on a dry run', async () => {
+      const res = await api.post('/api/images/cleanup?dryRun=true').expect(200);
+
+      expect(res.body.data).toMatchObject({ dryRun: true, graceHours: 24, scanned: 3, deleted: [], failed: [] });
+      expect(res.body.data.orphans.map((image: { imageId: string }) => image.imageId)).toEqual([orphanId]);
+      expect(deleteImageMock).not.toHaveBeenCalled();
+    });
+
+    it('should delete unused images older than the grace period', async () => {
+      const res = await api.post('/api/images/cleanup').expect(200);
+
+      expect(res.body.data.deleted).toEqual([orphanId]);
+      expect(deleteImageMock).toHaveBeenCalledTimes(1);
+      expect(deleteImageMock).toHaveBeenCalledWith(orphanId);
+    });
+
+    it('should report images that fail to delete', async () => {
+      deleteImageMock.mockRejectedValueOnce(new Error('MinIO down'));
+
+      const res = await api.post('/api/images/cleanup?graceHours=1').expect(200);
+
+      expect(res.body.data.deleted).toEqual([]);
+      expect(res.body.data.failed).toEqual([{ imageId: orphanId, error: 'MinIO down' }]);
+    });
+
+    it('should validate the query and be limited to owners', async () => {
+      await api.post('/api/images/cleanup?graceHours=0').expect(400);
+      await api.post('/api/images/cleanup?dryRun=yes').expect(400);
+
+      const cashier = await authenticatedAgent('cashier');
+      await cashier.post('/api/images/cleanup?dryRun=true').expect(403);
+    });
+  });
+
+  describe('GET /api/images/:filename', () => {
+    const content = Buffer.from('0123456789');
+    const lastModified = new Date('2026-10-01T10:00:00Z');
+    let statObject: jest.SpyInstance;
+    let getObject: jest.SpyInstance;
+    let getPartialObject: jest.SpyInstance;
+
+    beforeEach(() => {
+      statObject = jest.spyOn(minioClient, 'statObject').mockImplementation(async (bucket, objectName) => {
+        if (objectName !== 'photo.png') {
+          throw Object.assign(new Error('Not found'), { code: 'NotFound' });
+        }
+        return { size: content.length, etag: 'abc123', lastModified, metaData: { 'content-type': 'image/png' } };
+      });
+      getObject = jest.spyOn(minioClient, 'getObject').mockImplementation(async () => Readable.from([content]));
+      getPartialObject = jest
+        .spyOn(minioClient, 'getPartialObject')
+        .mockImplementation(async (bucket, objectName, offset, length) =>
+          Readable.from([content.subarray(offset, length === undefined ? undefined : offset + length)])
+        );
+    });
+
+    afterEach(() => {
+      statObject.mockRestore();
+      getObject.mockRestore();
+      getPartialObject.mockRestore();
+    });
+
+    it('should serve the image with validators', async () => {
+      const res = await request(app).get('/api/images/photo.png').buffer(true).expect(200);
+
+      expect(res.headers.etag).toBe('"abc123"');
+      expect(res.headers['last-modified']).toBe(lastModified.toUTCString());
+      expect(res.headers['accept-ranges']).toBe('bytes');
+      expect(res.headers['content-type']).toBe('image/png');
+      expect(Buffer.from(res.body).toString()).toBe('0123456789');
+    });
+
+    it('should fall back to the original when there are no variants', async () => {
+      await request(app).get('/api/images/photo.png?variant=thumbnail').expect(200);
+
+      expect(statObject).toHaveBeenCalledWith(expect.any(String), 'variants/photo.png/thumbnail');
+      expect(getObject).toHaveBeenCalledWith(expect.any(String), 'photo.png');
+    });
+
+    it('should answer 404 without opening a stream', async () => {
+      await request(app).get('/api/images/missing.png').expect(404);
+      expect(getObject).not.toHaveBeenCalled();
+    });
+
+    it('should answer 304 when the client has the current version', async () => {
+      await request(app).get('/api/images/photo.png').set('If-None-Match', '"abc123"').expect(304);
+      await request(app)
+        .get('/api/images/photo.png')
+        .set('If-Modified-Since', new Date('2026-10-02T00:00:00Z').toUTCString())
+        .expect(304);
+      await request(app).get('/api/images/photo.png').set('If-None-Match', '"old"').expect(200);
+
+      expect(getObject).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve byte ranges', async () => {
+      const res = await request(app).get('/api/images/photo.png').set('Range', 'bytes=2-5').buffer(true).expect(206);
+
+      expect(res.headers['content-range']).toBe('bytes 2-5/10');
+      expect(res.headers['content-length']).toBe('4');
+      expect(Buffer.from(res.body).toString()).toBe('2345');
+      expect(getPartialObject).toHaveBeenCalledWith(expect.any(String), 'photo.png', 2, 4);
+
+      const suffix = await request(app).get('/api/images/photo.png').set('Range', 'bytes=-3').expect(206);
+      expect(suffix.headers['content-range']).toBe('bytes 7-9/10');
+    });
+
+    it('should answer 416 for ranges outside the image', async () => {
+      const res = await request(app).get('/api/images/photo.png').set('Range', 'bytes=20-30').expect(416);
+
+      expect(res.headers['content-range']).toBe('bytes */10');
+      expect(getPartialObject).not.toHaveBeenCalled();
+    });
+
+    it('should serve the whole image for several ranges or a stale If-Range', async () => {
+      await request(app).get('/api/images/photo.png').set('Range', 'bytes=0-1,5-6').expect(200);
+      await request(app)
+        .get('/api/images/photo.png')
+        .set('Range', 'bytes=0-1')
+        .set('If-Range', '"old"')
+        .expect(200);
+      await request(app)
+        .get('/api/images/photo.png')
+        .set('Range', 'bytes=0-1')
+        .set('If-Range', '"abc123"')
+        .expect(206);
+    });
+  });
+});
@@ -20,6 +20,10 @@ const mockClient = {
     Record<string, string>
   ]>(),
   removeObject: jest.fn<Promise<void>, [string, string]>(),
+  removeObjects: jest.fn<Promise<void>, [string, string[]]>(),
+  getObject: jest.fn<Promise<NodeJS.ReadableStream>, [string, string]>(),
+  statObject: jest.fn<Promise<unknown>, [string, string]>(),
+  listObjectsV2: jest.fn<NodeJS.ReadableStream, [string, string, boolean]>(),
 };
 
 jest.mock('minio', () => {
@@ -58,16 +62,19 @@ describe('MinIO service', () => {
       expect(mockClient.makeBucket).not.toHaveBeenCalled();
     });
 
-    it('uploadImage returns a deterministic id and does not call putObject', async () => {
-      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1234567890);
+    it('uploadImage names the image after its content and does not call putObject', async () => {
       const minio = await import('../services/minio');
 
-      const id = await minio.uploadImage('file.png', Buffer.from('abc'), 'image/png');
+      const id = await minio.uploadImage(Buffer.from('abc'), 'image/png');
 
-      expect(id).toBe('1234567890-file.png');
+      expect(id).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad.png');
       expect(mockClient.putObject).not.toHaveBeenCalled();
+    });
+
+    it('uploadImage rejects types that are not images', async () => {
+      const minio = await import('../services/minio');
 
-      nowSpy.mockRestore();
+      await expect(minio.uploadImage(Buffer.from('abc'), 'text/plain')).rejects.toThrow('Unsupported image type');
     });
 
     it('deleteImage is a no-op (no removeObject calls)', async () => {
@@ -108,15 +115,14 @@ describe('MinIO service', () => {
     });
 
     it('uploadImage calls putObject with correct args and returns objectName', async () => {
-      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(222);
       mockClient.putObject.mockResolvedValueOnce();
 
       const minio = await import('../services/minio');
 
       const buf = Buffer.from('fake');
-      const id = await minio.uploadImage('x.webp', buf, 'image/webp');
+      const id = await minio.uploadImage(buf, 'image/webp');
 
-      expect(id).toBe('222-x.webp');
+      expect(id).toBe('b5d54c39e66671c9731b9f471e585d8262cd4f54963f0c93082d8dcf334d4c78.webp');
       expect(mockClient.putObject).toHaveBeenCalledTimes(1);
 
       const [bucket, objectName, buffer, length, meta] = mockClient.putObject.mock.calls[0] as unknown as [
@@ -128,21 +134,91 @@ describe('MinIO service', () => {
       ];
 
       expect(bucket).toBe('images-dev');
-      expect(objectName).toBe('222-x.webp');
+      expect(objectName).toBe('b5d54c39e66671c9731b9f471e585d8262cd4f54963f0c93082d8dcf334d4c78.webp');
       expect(buffer).toBe(buf);
       expect(length).toBe(buf.length);
       expect(meta).toEqual({ 'Content-Type': 'image/webp' });
+    });
+
+    it('uploadImage stores resized variants next to the original', async () => {
+      mockClient.putObject.mockResolvedValue();
+
+      const { default: sharp } = await import('sharp');
+      const photo = await sharp({ create: { width: 600, height: 400, channels: 3, background: '#ffffff' } })
+        .jpeg()
+        .toBuffer();
 
-      nowSpy.mockRestore();
+      const minio = await import('../services/minio');
+      const id = await minio.uploadImage(photo, 'image/jpeg');
+
+      expect(id).toMatch(/^[0-9a-f]{64}\.jpeg$/);
+      expect(mockClient.putObject.mock.calls.map((call) => [call[1], call[4]])).toEqual([
+        [id, { 'Content-Type': 'image/jpeg' }],
+        [`variants/${id}/thumbnail`, { 'Content-Type': 'image/jpeg' }],
+        [`variants/${id}/thumbnail.webp`, { 'Content-Type': 'image/webp' }],
+        [`variants/${id}/medium`, { 'Content-Type': 'image/jpeg' }],
+        [`variants/${id}/medium.webp`, { 'Content-Type': 'image/webp' }],
+        [`variants/${id}/original.webp`, { 'Content-Type': 'image/webp' }],
+      ]);
     });
 
     it('deleteImage calls removeObject with bucket + id', async () => {
       mockClient.removeObject.mockResolvedValueOnce();
+      mockClient.removeObjects.mockResolvedValueOnce();
 
       const minio = await import('../services/minio');
       await minio.deleteImage('abc');
 
       expect(mockClient.removeObject).toHaveBeenCalledWith('images-dev', 'abc');
+      expect(mockClient.removeObjects).toHaveBeenCalledWith('images-dev', [
+        'variants/abc/thumbnail',
+        'variants/abc/thumbnail.webp',
+        'variants/abc/medium',
+        'variants/abc/medium.webp',
+        'variants/abc/original.webp',
+      ]);
+    });
+
+    it('getImage reads the whole object from the bucket', async () => {
+      const { Readable } = await import('stream');
+      mockClient.getObject.mockResolvedValueOnce(Readable.from([Buffer.from('ab'), Buffer.from('cd')]));
+
+      const minio = await import('../services/minio');
+      const image = await minio.getImage('logo.png');
+
+      expect(mockClient.getObject).toHaveBeenCalledWith('images-dev', 'logo.png');
+      expect(image.toString()).toBe('abcd');
+    });
+
+    it('imageExists checks the object and never matches variants', async () => {
+      mockClient.statObject.mockResolvedValueOnce({ size: 1 });
+      mockClient.statObject.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { code: 'NotFound' }));
+
+      const minio = await import('../services/minio');
+
+      expect(await minio.imageExists('1-cake.png')).toBe(true);
+      expect(await minio.imageExists('2-gone.png')).toBe(false);
+      expect(await minio.imageExists('variants/1-cake.png/thumbnail')).toBe(false);
+      expect(mockClient.statObject).toHaveBeenCalledTimes(2);
+    });
+
+    it('listImages lists uploads newest first without their variants', async () => {
+      const { Readable } = await import('stream');
+      mockClient.listObjectsV2.mockReturnValueOnce(
+        Readable.from([
+          { name: '1-old.png', size: 10, lastModified: new Date('2026-01-01') },
+          { name: 'variants/1-old.png/thumbnail', size: 5, lastModified: new Date('2026-01-01') },
+          { name: '2-new.png', size: 20, lastModified: new Date('2026-02-01') },
+        ])
+      );
+
+      const minio = await import('../services/minio');
+
+      expect(await minio.listImages()).toEqual([
+        { imageId: '2-new.png', size: 20, lastModified: new Date('2026-02-01') },
+        { imageId: '1-old.png', size: 10, lastModified: new Date('2026-01-01') },
+      ]);
+      expect(mockClient.listObjectsV2).toHaveBeenCalledWith('images-dev', '', true);
     });
 
     it('getImageUrl uses MINIO env vars and bucket name', async () => {
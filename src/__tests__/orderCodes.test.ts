@@ -0,0 +1,53 @@
+// Pure unit tests: printed order codes and what the scanner reads back.
+
+import { formatOrderCode, getOrderQrContent, parseOrderCode } from '../services/orderCodes';
+
+describe('order codes', () => {
+  afterEach(() => {
+    delete process.env.ORDER_QR_URL;
+  });
+
+  it('formats the barcode content', () => {
+    expect(formatOrderCode(42)).toBe('LNQ-000042');
+    expect(formatOrderCode(1234567)).toBe('LNQ-1234567');
+  });
+
+  it('reads barcodes and typed order numbers', () => {
+    expect(parseOrderCode('LNQ-000042')).toBe(42);
+    expect(parseOrderCode(' lnq000042\n')).toBe(42);
+    expect(parseOrderCode('#42')).toBe(42);
+    expect(parseOrderCode('42')).toBe(42);
+  });
+
+  it('rejects codes that are not ours', () => {
+    expect(parseOrderCode('')).toBeNull();
+    expect(parseOrderCode('LNQ-0')).toBeNull();
+    expect(parseOrderCode('8991234567890x')).toBeNull();
+    expect(parseOrderCode('https://example.com/orders/42')).toBeNull();
+  });
+
+  it('rejects order numbers too large to be an order ID', () => {
+    expect(parseOrderCode('LNQ-2147483647')).toBe(2147483647);
+    expect(parseOrderCode('LNQ-2147483648')).toBeNull();
+    expect(parseOrderCode('99999999999')).toBeNull();
+
+    process.env.ORDER_QR_URL = 'https://lnq.example/orders/{id}';
+    expect(parseOrderCode('https://lnq.example/orders/2147483648')).toBeNull();
+  });
+
+  it('uses the order code as QR content unless ORDER_QR_URL is set', () => {
+    expect(getOrderQrContent(42)).toBe('LNQ-000042');
+
+    process.env.ORDER_QR_URL = 'https://lnq.example/orders/{id}?c={code}';
+    expect(getOrderQrContent(42)).toBe('https://lnq.example/orders/42?c=LNQ-000042');
+  });
+
+  it('reads QR codes made from ORDER_QR_URL', () => {
+    process.env.ORDER_QR_URL = 'https://lnq.example/orders/{id}';
+    expect(parseOrderCode('https://lnq.example/orders/42')).toBe(42);
+    expect(parseOrderCode('https://lnq.example/orders/42/edit')).toBeNull();
+
+    process.env.ORDER_QR_URL = 'https://pay.example/?ref={code}';
+    expect(parseOrderCode(getOrderQrContent(7))).toBe(7);
+  });
+});
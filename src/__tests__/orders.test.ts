@@ -1,11 +1,16 @@
-import request from 'supertest';
-import app from '../index';
 import { db, closeConnection } from '../db';
 import { orders, orderItems, products } from '../db/schema';
+import { authenticatedAgent, AuthenticatedAgent } from './helpers/auth';
 
 // Integration tests for order management endpoints
 
 describe('Orders Routes', () => {
+  let api: AuthenticatedAgent;
+
+  beforeAll(async () => {
+    api = await authenticatedAgent();
+  });
+
   let testProductId: number;
 
   beforeAll(async () => {
@@ -23,7 +28,7 @@ describe('Orders Routes', () => {
 
   describe('GET /api/orders', () => {
     it('should return all orders', async () => {
-      const res = await request(app)
+      const res = await api
         .get('/api/orders')
         .expect(200);
 
@@ -55,6 +60,78 @@ describe('Orders Routes', () => {
     });
   });
 
+  describe('GET /api/orders pagination, sorting and filters', () => {
+    const marker = `Paging-${Date.now()}`;
+
+    beforeAll(async () => {
+      const created = await db.insert(orders).values([
+        { customerName: `${marker} Charlie`, pickupDate: '2026-03-03' },
+        { customerName: `${marker} alice`, pickupDate: '2026-03-01' },
+        { customerName: `${marker} Bob`, pickupDate: '2026-03-02' },
+      ]).returning();
+
+      await db.insert(orderItems).values([
+        { orderId: created[0].id, productId: testProductId, amount: 1, priceAtSale: 100000 },
+        { orderId: created[1].id, itemType: 'custom', customName: 'Lilin', customPrice: 5000, priceAtSale: 5000 },
+        { orderId: created[2].id, productId: testProductId, amount: 2, priceAtSale: 100000 },
+      ]);
+    });
+
+    it('should paginate and report totals', async () => {
+      const res = await api
+        .get(`/api/orders?customer=${encodeURIComponent(marker)}&limit=2&page=1`)
+        .expect(200);
+
+      expect(res.body.data.length).toBe(2);
+      expect(res.body.pagination).toEqual({ page: 1, limit: 2, total: 3, totalPages: 2 });
+
+      const page2 = await api
+        .get(`/api/orders?customer=${encodeURIComponent(marker)}&limit=2&page=2`)
+        .expect(200);
+
+      expect(page2.body.data.length).toBe(1);
+    });
+
+    it('should sort by customer name case-insensitively', async () => {
+      const res = await api
+        .get(`/api/orders?customer=${encodeURIComponent(marker)}&sortBy=customerName&sortOrder=asc`)
+        .expect(200);
+
+      expect(res.body.data.map((o: any) => o.customerName)).toEqual([
+        `${marker} alice`,
+        `${marker} Bob`,
+        `${marker} Charlie`,
+      ]);
+    });
+
+    it('should filter by pickup date range', async () => {
+      const res = await api
+        .get(`/api/orders?customer=${encodeURIComponent(marker)}&pickupFrom=2026-03-02&pickupTo=2026-03-03&sortBy=pickupDate&sortOrder=asc`)
+        .expect(200);
+
+      expect(res.body.data.map((o: any) => o.pickupDate)).toEqual(['2026-03-02', '2026-03-03']);
+    });
+
+    it('should filter by contained product and custom-item presence', async () => {
+      const withProduct = await api
+        .get(`/api/orders?customer=${encodeURIComponent(marker)}&productId=${testProductId}`)
+        .expect(200);
+      expect(withProduct.body.pagination.total).toBe(2);
+
+      const withCustom = await api
+        .get(`/api/orders?customer=${encodeURIComponent(marker)}&hasCustomItems=true`)
+        .expect(200);
+      expect(withCustom.body.pagination.total).toBe(1);
+      expect(withCustom.body.data[0].customerName).toBe(`${marker} alice`);
+    });
+
+    it('should reject invalid query parameters', async () => {
+      await api.get('/api/orders?limit=1000').expect(400);
+      await api.get('/api/orders?sortBy=price').expect(400);
+      await api.get('/api/orders?pickupFrom=03-03-2026').expect(400);
+    });
+  });
+
   describe('GET /api/orders/:id', () => {
     let orderId: number;
 
@@ -74,7 +151,7 @@ describe('Orders Routes', () => {
     });
 
     it('should return an order by ID', async () => {
-      const res = await request(app)
+      const res = await api
         .get(`/api/orders/${orderId}`)
         .expect(200);
 
@@ -103,7 +180,7 @@ describe('Orders Routes', () => {
     });
 
     it('should return 404 for non-existent order', async () => {
-      const res = await request(app)
+      const res = await api
         .get('/api/orders/999999')
         .expect(404);
 
@@ -112,7 +189,7 @@ describe('Orders Routes', () => {
     });
 
     it('should return 400 for invalid order ID', async () => {
-      const res = await request(app)
+      const res = await api
         .get('/api/orders/invalid')
         .expect(400);
 
@@ -121,9 +198,37 @@ describe('Orders Routes', () => {
     });
   });
 
+  describe('GET /api/orders/scan', () => {
+    let orderId: number;
+
+    beforeAll(async () => {
+      const orderResult = await db.insert(orders).values({
+        customerName: 'Scan Customer',
+      }).returning();
+      orderId = orderResult[0].id;
+    });
+
+    it('should find the order for a scanned barcode', async () => {
+      const code = `LNQ-${String(orderId).padStart(6, '0')}`;
+      const res = await api
+        .get(`/api/orders/scan?code=${code}`)
+        .expect(200);
+
+      expect(res.body.data.id).toBe(orderId);
+      expect(res.body.data.customerName).toBe('Scan Customer');
+    });
+
+    it('should return 404 for an unknown order and 400 for a foreign code', async () => {
+      await api.get('/api/orders/scan?code=LNQ-999999').expect(404);
+      await api.get('/api/orders/scan?code=8991234567890x').expect(400);
+      await api.get('/api/orders/scan?code=LNQ-99999999999').expect(400);
+      await api.get('/api/orders/scan').expect(400);
+    });
+  });
+
   describe('POST /api/orders', () => {
     it('should create an order with a custom (non-product) item', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/orders')
         .send({
           customerName: 'Custom Charge Customer',
@@ -157,7 +262,7 @@ describe('Orders Routes', () => {
       }).returning();
       const comboProductId = productResult[0].id;
 
-      const res = await request(app)
+      const res = await api
         .post('/api/orders')
         .send({
           customerName: 'Combo Customer',
@@ -199,7 +304,7 @@ describe('Orders Routes', () => {
       const zeroPriceProductId = productResult[0].id;
 
       // Create order with priceAtSale = 0
-      const res = await request(app)
+      const res = await api
         .post('/api/orders')
         .send({
           customerName: 'Zero Price Customer',
@@ -220,7 +325,7 @@ describe('Orders Routes', () => {
 
       // Fetch the order again and verify priceAtSale is still 0
       const orderId = res.body.data.id;
-      const getRes = await request(app)
+      const getRes = await api
         .get(`/api/orders/${orderId}`)
         .expect(200);
       expect(getRes.body.success).toBe(true);
@@ -236,7 +341,7 @@ describe('Orders Routes', () => {
           const overrideProductId = productResult[0].id;
 
           // Provide priceAtSale explicitly
-          const res1 = await request(app)
+          const res1 = await api
             .post('/api/orders')
             .send({
               customerName: 'Override Price Customer',
@@ -254,7 +359,7 @@ describe('Orders Routes', () => {
           expect(res1.body.data.items[0].priceAtSale).toBe(99999);
 
           // Do not provide priceAtSale, should use product price
-          const res2 = await request(app)
+          const res2 = await api
             .post('/api/orders')
             .send({
               customerName: 'Default Price Customer',
@@ -270,8 +375,40 @@ describe('Orders Routes', () => {
           expect(res2.body.success).toBe(true);
           expect(res2.body.data.items[0].priceAtSale).toBe(12345);
         });
+
+        it('should only let the owner set priceAtSale', async () => {
+          const productResult = await db.insert(products).values({
+            name: 'Fixed Price Product',
+            price: 20000,
+          }).returning();
+          const item = { itemType: 'product', productId: productResult[0].id, amount: 1 };
+
+          const cashier = await authenticatedAgent('cashier');
+          const res = await cashier
+            .post('/api/orders')
+            .send({ customerName: 'Discount Seeker', items: [{ ...item, priceAtSale: 1 }] })
+            .expect(201);
+          expect(res.body.data.items[0].priceAtSale).toBe(20000);
+          expect(res.body.data.totals.total).toBe(20000);
+
+          await cashier
+            .put(`/api/orders/${res.body.data.id}`)
+            .send({ items: [{ ...item, priceAtSale: 1 }] })
+            .expect(200);
+          const updated = await api.get(`/api/orders/${res.body.data.id}`).expect(200);
+          expect(updated.body.data.items[0].priceAtSale).toBe(20000);
+
+          await api
+            .post('/api/orders')
+            .send({ customerName: 'Negative Price', items: [{ ...item, priceAtSale: -5000 }] })
+            .expect(400);
+          await api
+            .post('/api/orders')
+            .send({ customerName: 'Fractional Price', items: [{ ...item, priceAtSale: 1.5 }] })
+            .expect(400);
+        });
     it('should create a new order with items', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/orders')
         .send({
           customerName: 'New Customer',
@@ -293,10 +430,46 @@ describe('Orders Routes', () => {
       expect(res.body.data.items[0].priceAtSale).toBe(100000);
     });
 
+    it('should return server-computed line totals and order totals', async () => {
+      const res = await api
+        .post('/api/orders')
+        .send({
+          customerName: 'Totals Customer',
+          discount: 20000,
+          fee: 5000,
+          items: [
+            {
+              itemType: 'product',
+              productId: testProductId,
+              amount: 2,
+            },
+            {
+              itemType: 'custom',
+              customName: 'Ongkos Kirim',
+              customPrice: 15000,
+            },
+          ],
+        })
+        .expect(201);
+
+      const product = res.body.data.items.find((i: any) => i.itemType === 'product');
+      const custom = res.body.data.items.find((i: any) => i.itemType === 'custom');
+      expect(product.unitPrice).toBe(100000);
+      expect(product.lineTotal).toBe(200000);
+      expect(custom.lineTotal).toBe(15000);
+      expect(res.body.data.totals).toEqual({
+        subtotal: 215000,
+        discount: 20000,
+        fee: 5000,
+        total: 200000,
+      });
+      expect(res.body.data.balance.total).toBe(200000);
+    });
+
     it('should create a new order with pickupDate', async () => {
       const pickupDate = '2026-01-04';
 
-      const res = await request(app)
+      const res = await api
         .post('/api/orders')
         .send({
           customerName: 'Pickup Customer',
@@ -325,7 +498,7 @@ describe('Orders Routes', () => {
       }).returning();
       const testProductId2 = product2Result[0].id;
 
-      const res = await request(app)
+      const res = await api
         .post('/api/orders')
         .send({
           customerName: 'Multi Item Customer',
@@ -352,7 +525,7 @@ describe('Orders Routes', () => {
     });
 
     it('should validate required fields', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/orders')
         .send({
           items: [
@@ -370,7 +543,7 @@ describe('Orders Routes', () => {
     });
 
     it('should validate items array is not empty', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/orders')
         .send({
           customerName: 'Invalid Order',
@@ -382,8 +555,46 @@ describe('Orders Routes', () => {
       expect(res.body.message === 'Validation failed' || /empty|required/i.test(res.body.message || '')).toBe(true);
     });
 
+    it('should reject unknown products with a 400 listing the offending items', async () => {
+      const customerName = `Missing Product ${Date.now()}`;
+      const res = await api
+        .post('/api/orders')
+        .send({
+          customerName,
+          items: [
+            { itemType: 'product', productId: testProductId, amount: 1 },
+            { itemType: 'product', productId: 999999, amount: 1 },
+          ],
+        })
+        .expect(400);
+
+      expect(res.body.success).toBe(false);
+      expect(res.body.errors.items).toEqual([
+        { index: 1, productId: 999999, message: 'Product not found' },
+      ]);
+
+      // Nothing was written
+      const listRes = await api
+        .get(`/api/orders?customer=${encodeURIComponent(customerName)}`)
+        .expect(200);
+      expect(listRes.body.pagination.total).toBe(0);
+    });
+
+    it('should store order notes on create', async () => {
+      const res = await api
+        .post('/api/orders')
+        .send({
+          customerName: 'Notes Customer',
+          notes: 'Please call when ready',
+          items: [{ itemType: 'product', productId: testProductId, amount: 1 }],
+        })
+        .expect(201);
+
+      expect(res.body.data.notes).toBe('Please call when ready');
+    });
+
     it('should validate item amount is positive', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/orders')
         .send({
           customerName: 'Invalid Amount',
@@ -413,7 +624,7 @@ describe('Orders Routes', () => {
     });
 
     it('should update an order', async () => {
-      const res = await request(app)
+      const res = await api
         .put(`/api/orders/${orderId}`)
         .send({
           customerName: 'Updated Customer Name',
@@ -428,7 +639,7 @@ describe('Orders Routes', () => {
     it('should update pickupDate', async () => {
       const pickupDate = '2026-01-05';
 
-      const res = await request(app)
+      const res = await api
         .put(`/api/orders/${orderId}`)
         .send({
           pickupDate,
@@ -441,7 +652,7 @@ describe('Orders Routes', () => {
     });
 
     it('should return 404 for non-existent order', async () => {
-      const res = await request(app)
+      const res = await api
         .put('/api/orders/999999')
         .send({
           customerName: 'Non-existent',
@@ -454,7 +665,7 @@ describe('Orders Routes', () => {
 
     it('should update order with new items (replace all items)', async () => {
       // First, create an order with items
-      const createRes = await request(app)
+      const createRes = await api
         .post('/api/orders')
         .send({
           customerName: 'Order with Items',
@@ -470,7 +681,7 @@ describe('Orders Routes', () => {
       const orderIdWithItems = createRes.body.data.id;
 
       // Now update with different items
-      const res = await request(app)
+      const res = await api
         .put(`/api/orders/${orderIdWithItems}`)
         .send({
           items: [
@@ -501,7 +712,7 @@ describe('Orders Routes', () => {
       const testProductId2 = product2Result[0].id;
 
       // Create order with one item
-      const createRes = await request(app)
+      const createRes = await api
         .post('/api/orders')
         .send({
           customerName: 'Order to Expand',
@@ -517,7 +728,7 @@ describe('Orders Routes', () => {
       const orderIdToExpand = createRes.body.data.id;
 
       // Update with multiple items
-      const res = await request(app)
+      const res = await api
         .put(`/api/orders/${orderIdToExpand}`)
         .send({
           customerName: 'Updated with More Items',
@@ -547,7 +758,7 @@ describe('Orders Routes', () => {
 
     it('should update order info without changing items', async () => {
       // Create order with items
-      const createRes = await request(app)
+      const createRes = await api
         .post('/api/orders')
         .send({
           customerName: 'Original Customer',
@@ -565,7 +776,7 @@ describe('Orders Routes', () => {
       const originalItemId = createRes.body.data.items[0].id;
 
       // Update only customer name and notes, not items
-      const res = await request(app)
+      const res = await api
         .put(`/api/orders/${orderIdKeepItems}`)
         .send({
           customerName: 'Updated Customer',
@@ -584,8 +795,35 @@ describe('Orders Routes', () => {
       expect(typeof res.body.data.items[0].priceAtSale).toBe('number');
     });
 
+    it('should keep existing items when the replacement references unknown products', async () => {
+      const createRes = await api
+        .post('/api/orders')
+        .send({
+          customerName: 'Atomic Update Customer',
+          items: [{ itemType: 'product', productId: testProductId, amount: 4 }],
+        })
+        .expect(201);
+
+      const res = await api
+        .put(`/api/orders/${createRes.body.data.id}`)
+        .send({
+          customerName: 'Should Not Be Saved',
+          items: [{ itemType: 'product', productId: 999999, amount: 1 }],
+        })
+        .expect(400);
+
+      expect(res.body.errors.items[0].productId).toBe(999999);
+
+      const getRes = await api
+        .get(`/api/orders/${createRes.body.data.id}`)
+        .expect(200);
+      expect(getRes.body.data.customerName).toBe('Atomic Update Customer');
+      expect(getRes.body.data.items.length).toBe(1);
+      expect(getRes.body.data.items[0].id).toBe(createRes.body.data.items[0].id);
+    });
+
     it('should validate items when updating', async () => {
-      const res = await request(app)
+      const res = await api
         .put(`/api/orders/${orderId}`)
         .send({
           items: [],
@@ -597,6 +835,100 @@ describe('Orders Routes', () => {
     });
   });
 
+  describe('POST /api/orders/:id/status', () => {
+    let orderId: number;
+
+    beforeAll(async () => {
+      const result = await db.insert(orders).values({
+        customerName: 'Status Customer',
+      }).returning();
+      orderId = result[0].id;
+    });
+
+    it('should start new orders as pending', async () => {
+      const res = await api
+        .get(`/api/orders/${orderId}`)
+        .expect(200);
+
+      expect(res.body.data.status).toBe('pending');
+      expect(res.body.data.statusHistory).toEqual([]);
+    });
+
+    it('should move through the lifecycle and record each transition', async () => {
+      await api
+        .post(`/api/orders/${orderId}/status`)
+        .send({ status: 'in_production', changedBy: 'Kitchen' })
+        .expect(200);
+
+      const res = await api
+        .post(`/api/orders/${orderId}/status`)
+        .send({ status: 'ready', notes: 'Boxed' })
+        .expect(200);
+
+      expect(res.body.success).toBe(true);
+      expect(res.body.data.status).toBe('ready');
+      expect(res.body.data.statusHistory.length).toBe(2);
+      expect(res.body.data.statusHistory[0].fromStatus).toBe('pending');
+      expect(res.body.data.statusHistory[0].toStatus).toBe('in_production');
+      expect(res.body.data.statusHistory[1].fromStatus).toBe('in_production');
+      expect(res.body.data.statusHistory[1].toStatus).toBe('ready');
+      expect(res.body.data.statusHistory[0].changedBy).toBe('Test suite (owner)');
+      expect(res.body.data.statusHistory[0].notes).toBe('Reported by Kitchen');
+      expect(res.body.data.statusHistory[1].changedBy).toBe('Test suite (owner)');
+      expect(res.body.data.statusHistory[1].notes).toBe('Boxed');
+      expect(typeof res.body.data.statusHistory[1].changedAt).toBe('string');
+    });
+
+    it('should reject illegal transitions with 409', async () => {
+      const res = await api
+        .post(`/api/orders/${orderId}/status`)
+        .send({ status: 'pending' })
+        .expect(409);
+
+      expect(res.body.success).toBe(false);
+      expect(res.body.message).toMatch(/ready to pending/);
+      expect(res.body.allowed).toEqual(['picked_up', 'cancelled']);
+    });
+
+    it('should reject unknown statuses', async () => {
+      const res = await api
+        .post(`/api/orders/${orderId}/status`)
+        .send({ status: 'eaten' })
+        .expect(400);
+
+      expect(res.body.success).toBe(false);
+    });
+
+    it('should return 404 for non-existent order', async () => {
+      const res = await api
+        .post('/api/orders/999999/status')
+        .send({ status: 'in_production' })
+        .expect(404);
+
+      expect(res.body.success).toBe(false);
+    });
+
+    it('should filter GET /api/orders by status', async () => {
+      const res = await api
+        .get('/api/orders?status=ready&customer=Status%20Customer')
+        .expect(200);
+
+      expect(res.body.data.length).toBeGreaterThan(0);
+      for (const order of res.body.data) {
+        expect(order.status).toBe('ready');
+      }
+      expect(res.body.data.some((o: any) => o.id === orderId)).toBe(true);
+    });
+
+    it('should reject an unknown status filter', async () => {
+      const res = await api
+        .get('/api/orders?status=pending,eaten')
+        .expect(400);
+
+      expect(res.body.success).toBe(false);
+    });
+  });
+
   describe('DELETE /api/orders/:id', () => {
     let orderId: number;
 
@@ -608,7 +940,7 @@ describe('Orders Routes', () => {
     });
 
     it('should delete an order', async () => {
-      const res = await request(app)
+      const res = await api
         .delete(`/api/orders/${orderId}`)
         .expect(200);
 
@@ -617,7 +949,7 @@ describe('Orders Routes', () => {
     });
 
     it('should return 404 when deleting non-existent order', async () => {
-      const res = await request(app)
+      const res = await api
         .delete('/api/orders/999999')
         .expect(404);
 
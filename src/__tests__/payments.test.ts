@@ -0,0 +1,227 @@
+import { db, closeConnection } from '../db';
+import { orders, orderItems, products } from '../db/schema';
+import { authenticatedAgent, AuthenticatedAgent } from './helpers/auth';
+
+// Integration tests for order payment (down payment) endpoints
+
+describe('Payments Routes', () => {
+  let api: AuthenticatedAgent;
+
+  beforeAll(async () => {
+    api = await authenticatedAgent();
+  });
+
+  let testProductId: number;
+
+  async function createOrder(customerName: string): Promise<number> {
+    const orderResult = await db.insert(orders).values({ customerName }).returning();
+    const orderId = orderResult[0].id;
+
+    // 2 x 100000 + 50000 custom = 250000
+    await db.insert(orderItems).values([
+      {
+        orderId,
+        productId: testProductId,
+        amount: 2,
+        priceAtSale: 100000,
+      },
+      {
+        orderId,
+        itemType: 'custom',
+        customName: 'Tulisan coklat',
+        customPrice: 50000,
+        priceAtSale: 50000,
+      },
+    ]);
+
+    return orderId;
+  }
+
+  beforeAll(async () => {
+    const result = await db.insert(products).values({
+      name: 'Test Product for Payments',
+      price: 100000,
+    }).returning();
+    testProductId = result[0].id;
+  });
+
+  afterAll(async () => {
+    await closeConnection();
+  });
+
+  describe('POST /api/orders/:orderId/payments', () => {
+    let orderId: number;
+
+    beforeAll(async () => {
+      orderId = await createOrder('DP Customer');
+    });
+
+    it('should record a down payment and report the outstanding balance', async () => {
+      const res = await api
+        .post(`/api/orders/${orderId}/payments`)
+        .send({ amount: 100000, method: 'transfer', notes: 'DP' })
+        .expect(201);
+
+      expect(res.body.success).toBe(true);
+      expect(res.body.data.payment.amount).toBe(100000);
+      expect(res.body.data.payment.method).toBe('transfer');
+      expect(res.body.data.balance).toEqual({
+        total: 250000,
+        paid: 100000,
+        outstanding: 150000,
+        status: 'partial',
+      });
+    });
+
+    it('should record the authenticated caller as receivedBy', async () => {
+      const res = await api
+        .post(`/api/orders/${orderId}/payments`)
+        .send({ amount: 1000, method: 'cash', receivedBy: 'Rina' })
+        .expect(201);
+
+      expect(res.body.data.payment.receivedBy).toBe('Test suite (owner)');
+      expect(res.body.data.payment.notes).toBe('Received by Rina');
+
+      await api.delete(`/api/orders/${orderId}/payments/${res.body.data.payment.id}`).expect(200);
+    });
+
+    it('should include the balance on the order response', async () => {
+      const res = await api
+        .get(`/api/orders/${orderId}`)
+        .expect(200);
+
+      expect(res.body.data.payments.length).toBe(1);
+      expect(res.body.data.balance.outstanding).toBe(150000);
+      expect(res.body.data.balance.status).toBe('partial');
+    });
+
+    it('should reject payments above the outstanding balance', async () => {
+      const res = await api
+        .post(`/api/orders/${orderId}/payments`)
+        .send({ amount: 200000, method: 'cash' })
+        .expect(400);
+
+      expect(res.body.success).toBe(false);
+    });
+
+    it('should reject unknown payment methods', async () => {
+      const res = await api
+        .post(`/api/orders/${orderId}/payments`)
+        .send({ amount: 1000, method: 'bitcoin' })
+        .expect(400);
+
+      expect(res.body.success).toBe(false);
+    });
+
+    it('should settle the order with a second payment', async () => {
+      const res = await api
+        .post(`/api/orders/${orderId}/payments`)
+        .send({ amount: 150000, method: 'qris' })
+        .expect(201);
+
+      expect(res.body.data.balance.outstanding).toBe(0);
+      expect(res.body.data.balance.status).toBe('paid');
+
+      const listRes = await api
+        .get(`/api/orders/${orderId}/payments`)
+        .expect(200);
+
+      expect(listRes.body.data.payments.length).toBe(2);
+      expect(listRes.body.data.balance.paid).toBe(250000);
+    });
+
+    it('should not let concurrent payments overpay the order', async () => {
+      const concurrentOrderId = await createOrder('Concurrent Customer');
+
+      const responses = await Promise.all(
+        Array.from({ length: 8 }, () =>
+          api.post(`/api/orders/${concurrentOrderId}/payments`).send({ amount: 250000, method: 'cash' })
+        )
+      );
+
+      expect(responses.filter((res) => res.status === 201)).toHaveLength(1);
+      expect(responses.filter((res) => res.status === 400)).toHaveLength(7);
+
+      const listRes = await api.get(`/api/orders/${concurrentOrderId}/payments`).expect(200);
+      expect(listRes.body.data.balance.paid).toBe(250000);
+    });
+
+    it('should return 404 for non-existent order', async () => {
+      const res = await api
+        .post('/api/orders/999999/payments')
+        .send({ amount: 1000, method: 'cash' })
+        .expect(404);
+
+      expect(res.body.success).toBe(false);
+    });
+  });
+
+  describe('DELETE /api/orders/:orderId/payments/:paymentId', () => {
+    it('should delete a payment', async () => {
+      const orderId = await createOrder('Mistake Customer');
+      const createRes = await api
+        .post(`/api/orders/${orderId}/payments`)
+        .send({ amount: 5000, method: 'cash' })
+        .expect(201);
+
+      const paymentId = createRes.body.data.payment.id;
+
+      const res = await api
+        .delete(`/api/orders/${orderId}/payments/${paymentId}`)
+        .expect(200);
+
+      expect(res.body.success).toBe(true);
+
+      await api
+        .delete(`/api/orders/${orderId}/payments/${paymentId}`)
+        .expect(404);
+    });
+
+    it('should refuse to delete a payment of a cancelled order', async () => {
+      const orderId = await createOrder('Cancelled Payment Customer');
+      const createRes = await api
+        .post(`/api/orders/${orderId}/payments`)
+        .send({ amount: 5000, method: 'cash' })
+        .expect(201);
+      await api.post(`/api/orders/${orderId}/status`).send({ status: 'cancelled' }).expect(200);
+
+      const res = await api
+        .delete(`/api/orders/${orderId}/payments/${createRes.body.data.payment.id}`)
+        .expect(409);
+
+      expect(res.body.success).toBe(false);
+    });
+  });
+
+  describe('picking up an order with an outstanding balance', () => {
+    let orderId: number;
+
+    beforeAll(async () => {
+      orderId = await createOrder('Pickup Balance Customer');
+      for (const status of ['in_production', 'ready']) {
+        await api.post(`/api/orders/${orderId}/status`).send({ status }).expect(200);
+      }
+    });
+
+    it('should refuse picked_up while a balance remains', async () => {
+      const res = await api
+        .post(`/api/orders/${orderId}/status`)
+        .send({ status: 'picked_up' })
+        .expect(409);
+
+      expect(res.body.success).toBe(false);
+      expect(res.body.balance.outstanding).toBe(250000);
+    });
+
+    it('should allow picked_up when explicitly overridden', async () => {
+      const res = await api
+        .post(`/api/orders/${orderId}/status`)
+        .send({ status: 'picked_up', allowOutstandingBalance: true })
+        .expect(200);
+
+      expect(res.body.data.status).toBe('picked_up');
+      const last = res.body.data.statusHistory[res.body.data.statusHistory.length - 1];
+      expect(last.notes).toMatch(/outstanding balance/);
+    });
+  });
+});
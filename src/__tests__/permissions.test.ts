@@ -0,0 +1,96 @@
+import { db, closeConnection } from '../db';
+import { orders, orderItems, products } from '../db/schema';
+import { canSetOrderStatus, hasPermission } from '../services/permissions';
+import { authenticatedAgent, AuthenticatedAgent } from './helpers/auth';
+
+// Integration tests for role-based permissions (owner, cashier, kitchen)
+
+describe('Permissions', () => {
+  let owner: AuthenticatedAgent;
+  let cashier: AuthenticatedAgent;
+  let kitchen: AuthenticatedAgent;
+  let productId: number;
+  let orderId: number;
+
+  beforeAll(async () => {
+    owner = await authenticatedAgent('owner');
+    cashier = await authenticatedAgent('cashier');
+    kitchen = await authenticatedAgent('kitchen');
+
+    const product = await db.insert(products).values({ name: 'Permission Cake', price: 100000 }).returning();
+    productId = product[0].id;
+
+    const order = await db.insert(orders).values({ customerName: 'Permission Test' }).returning();
+    orderId = order[0].id;
+    await db.insert(orderItems).values({ orderId, productId, amount: 1, priceAtSale: 100000 });
+  });
+
+  afterAll(async () => {
+    await closeConnection();
+  });
+
+  describe('role table', () => {
+    it('should only let the owner delete and view reports', () => {
+      expect(hasPermission('owner', 'orders:delete')).toBe(true);
+      expect(hasPermission('owner', 'reports:read')).toBe(true);
+      expect(hasPermission('cashier', 'orders:delete')).toBe(false);
+      expect(hasPermission('cashier', 'reports:read')).toBe(false);
+      expect(hasPermission('kitchen', 'products:write')).toBe(false);
+    });
+
+    it('should limit the kitchen to production statuses', () => {
+      expect(canSetOrderStatus('kitchen', 'in_production')).toBe(true);
+      expect(canSetOrderStatus('kitchen', 'ready')).toBe(true);
+      expect(canSetOrderStatus('kitchen', 'picked_up')).toBe(false);
+      expect(canSetOrderStatus('kitchen', 'cancelled')).toBe(false);
+      expect(canSetOrderStatus('cashier', 'cancelled')).toBe(true);
+    });
+  });
+
+  describe('kitchen', () => {
+    it('should read orders and move them through production', async () => {
+      await kitchen.get(`/api/orders/${orderId}`).expect(200);
+
+      const res = await kitchen
+        .post(`/api/orders/${orderId}/status`)
+        .send({ status: 'in_production' })
+        .expect(200);
+      expect(res.body.data.status).toBe('in_production');
+    });
+
+    it('should not change prices, cancel orders or view reports', async () => {
+      const res = await kitchen
+        .put(`/api/products/${productId}`)
+        .send({ price: 1 })
+        .expect(403);
+      expect(res.body).toEqual({
+        success: false,
+        message: "Role 'kitchen' is not allowed to perform this action",
+      });
+
+      await kitchen.put(`/api/orders/${orderId}`).send({ discount: 50000 }).expect(403);
+      await kitchen.post(`/api/orders/${orderId}/status`).send({ status: 'cancelled' }).expect(403);
+      await kitchen.get('/api/reports/average-order-value?from=2031-01-01&to=2031-01-31').expect(403);
+    });
+  });
+
+  describe('cashier', () => {
+    it('should take orders but not delete them', async () => {
+      await cashier
+        .post('/api/orders')
+        .send({ customerName: 'Cashier Order', items: [{ itemType: 'product', productId, amount: 1 }] })
+        .expect(201);
+
+      await cashier.delete(`/api/orders/${orderId}`).expect(403);
+      await cashier.delete(`/api/products/${productId}`).expect(403);
+      await cashier.get('/api/auth/users').expect(403);
+    });
+  });
+
+  describe('owner', () => {
+    it('should view reports and delete orders', async () => {
+      await owner.get('/api/reports/average-order-value?from=2031-01-01&to=2031-01-31').expect(200);
+      await owner.delete(`/api/orders/${orderId}`).expect(200);
+    });
+  });
+});
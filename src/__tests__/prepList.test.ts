@@ -0,0 +1,96 @@
+// Tests for the prep list aggregation in src/services/prepList.ts.
+// Pure unit tests: buildPrepList never touches the database.
+
+import { buildPrepList, PrepListRow } from '../services/prepList';
+import { buildPrepListOutput } from '../services/printer';
+
+function row(overrides: Partial<PrepListRow>): PrepListRow {
+  return {
+    orderId: 1,
+    customerName: 'Alice',
+    pickupDate: '2026-01-10',
+    itemType: 'product',
+    productId: 1,
+    productName: 'Bolu Pandan',
+    amount: 1,
+    customName: null,
+    notes: null,
+    ...overrides,
+  };
+}
+
+describe('Prep list', () => {
+  const range = { from: '2026-01-10', to: '2026-01-10' };
+
+  it('sums quantities per product across orders', () => {
+    const prepList = buildPrepList(
+      [
+        row({ orderId: 1, amount: 2 }),
+        row({ orderId: 2, amount: 3, customerName: 'Bob' }),
+        row({ orderId: 2, productId: 2, productName: 'Brownies', amount: 1, customerName: 'Bob' }),
+      ],
+      range
+    );
+
+    expect(prepList.products).toEqual([
+      { productId: 1, name: 'Bolu Pandan', quantity: 5, orderCount: 2, notes: [] },
+      { productId: 2, name: 'Brownies', quantity: 1, orderCount: 1, notes: [] },
+    ]);
+    expect(prepList.customItems).toEqual([]);
+  });
+
+  it('groups identical notes case-insensitively', () => {
+    const prepList = buildPrepList(
+      [
+        row({ orderId: 1, amount: 1, notes: 'Tulisan HBD' }),
+        row({ orderId: 2, amount: 2, notes: 'tulisan hbd ', customerName: 'Bob' }),
+        row({ orderId: 3, amount: 1, notes: 'Tanpa kacang', customerName: 'Citra' }),
+      ],
+      range
+    );
+
+    expect(prepList.products[0].notes).toEqual([
+      {
+        note: 'Tulisan HBD',
+        quantity: 3,
+        orders: [
+          { orderId: 1, customerName: 'Alice' },
+          { orderId: 2, customerName: 'Bob' },
+        ],
+      },
+      { note: 'Tanpa kacang', quantity: 1, orders: [{ orderId: 3, customerName: 'Citra' }] },
+    ]);
+  });
+
+  it('lists custom items separately', () => {
+    const prepList = buildPrepList(
+      [
+        row({ orderId: 4, itemType: 'custom', productId: null, productName: null, amount: null, customName: 'Tart 2 tingkat', notes: 'Warna pink' }),
+      ],
+      range
+    );
+
+    expect(prepList.products).toEqual([]);
+    expect(prepList.customItems).toEqual([
+      { orderId: 4, customerName: 'Alice', pickupDate: '2026-01-10', name: 'Tart 2 tingkat', notes: 'Warna pink' },
+    ]);
+  });
+
+  it('prints quantities, notes and custom items', () => {
+    const prepList = buildPrepList(
+      [
+        row({ orderId: 1, amount: 2, notes: 'Tulisan HBD' }),
+        row({ orderId: 4, itemType: 'custom', productId: null, productName: null, amount: null, customName: 'Tart 2 tingkat' }),
+      ],
+      range
+    );
+
+    const output = buildPrepListOutput(prepList).toString('latin1');
+
+    expect(output.startsWith('\x1B@')).toBe(true);
+    expect(output).toContain('2x Bolu Pandan');
+    expect(output).toContain('2x (Tulisan HBD)');
+    expect(output).toContain('Tart 2 tingkat');
+    expect(output.endsWith('\x1DV\x00')).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+// Tests for src/services/pricing.ts and how the printer uses it.
+// Pure unit tests: no database required.
+
+import { computeOrderTotals, priceLine } from '../services/pricing';
+import { buildCustomerReceipt } from '../services/printer';
+
+describe('Pricing service', () => {
+  describe('priceLine', () => {
+    it('multiplies priceAtSale by amount for product items', () => {
+      expect(priceLine({ itemType: 'product', amount: 3, priceAtSale: 12000 })).toEqual({
+        unitPrice: 12000,
+        quantity: 3,
+        lineTotal: 36000,
+      });
+    });
+
+    it('keeps priceAtSale = 0 instead of falling back to the product price', () => {
+      const line = priceLine({
+        itemType: 'product',
+        amount: 2,
+        priceAtSale: 0,
+        product: { price: 50000 },
+      });
+      expect(line.lineTotal).toBe(0);
+    });
+
+    it('falls back to the current product price when priceAtSale is missing', () => {
+      const line = priceLine({
+        itemType: 'product',
+        amount: 2,
+        priceAtSale: null,
+        product: { price: 50000 },
+      });
+      expect(line.lineTotal).toBe(100000);
+    });
+
+    it('prices custom items once at customPrice', () => {
+      expect(priceLine({ itemType: 'custom', customPrice: 15000, priceAtSale: 15000 })).toEqual({
+        unitPrice: 15000,
+        quantity: 1,
+        lineTotal: 15000,
+      });
+    });
+  });
+
+  describe('computeOrderTotals', () => {
+    const items = [
+      { itemType: 'product', amount: 2, priceAtSale: 100000 },
+      { itemType: 'custom', customPrice: 10000 },
+    ];
+
+    it('sums line totals into the subtotal and total', () => {
+      expect(computeOrderTotals(items)).toEqual({
+        subtotal: 210000,
+        discount: 0,
+        fee: 0,
+        total: 210000,
+      });
+    });
+
+    it('applies discount and fee', () => {
+      expect(computeOrderTotals(items, { discount: 10000, fee: 5000 })).toEqual({
+        subtotal: 210000,
+        discount: 10000,
+        fee: 5000,
+        total: 205000,
+      });
+    });
+
+    it('never discounts below zero', () => {
+      expect(computeOrderTotals(items, { discount: 999999 }).total).toBe(0);
+    });
+  });
+
+  describe('printer output', () => {
+    it('prints the totals computed by the pricing module', () => {
+      const orderItems = [{ itemType: 'product', amount: 2, priceAtSale: 12000 }];
+      const totals = computeOrderTotals(orderItems, { discount: 4000 });
+      const line = priceLine(orderItems[0]);
+
+      const output = buildCustomerReceipt({
+        id: 1,
+        customer: 'Budi',
+        date: new Date(2026, 0, 4, 10, 30),
+        items: [{ name: 'Bolu', quantity: line.quantity, price: line.unitPrice, lineTotal: line.lineTotal }],
+        totals,
+      }).toString('latin1');
+
+      expect(output).toMatch(new RegExp(`SUBTOTAL +Rp${(24000).toLocaleString('id-ID')}`));
+      expect(output).toMatch(new RegExp(`DISKON +-Rp${(4000).toLocaleString('id-ID')}`));
+      expect(output).toMatch(new RegExp(`\\bTOTAL +Rp${(20000).toLocaleString('id-ID')}`));
+    });
+  });
+});
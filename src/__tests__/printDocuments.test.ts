@@ -0,0 +1,133 @@
+// Pure unit tests: the document layouts never touch the database or a printer.
+
+import {
+  buildCustomerReceipt,
+  buildKitchenTicket,
+  buildOrderDocument,
+  buildPickupLabel,
+  PrinterOrder,
+} from '../services/printer';
+
+const shop = { name: 'Toko Kue', address: 'Jl. Melati 5', phone: '0812-0000', footer: 'Terima kasih' };
+
+function makeOrder(overrides: Partial<PrinterOrder> = {}): PrinterOrder {
+  return {
+    id: 42,
+    customer: 'Budi',
+    date: new Date(2026, 0, 4, 10, 30),
+    pickupDate: '2026-01-05',
+    items: [
+      { name: 'Bolu Pandan', quantity: 2, price: 12000, lineTotal: 24000, notes: ['Tulisan HBD'] },
+    ],
+    totals: { subtotal: 24000, discount: 0, fee: 0, total: 24000 },
+    payments: [{ method: 'transfer', amount: 10000 }],
+    ...overrides,
+  };
+}
+
+describe('print documents', () => {
+  it('prints a receipt with the shop header, order number and balance', () => {
+    const output = buildCustomerReceipt(makeOrder(), { columns: 32, shop }).toString('latin1');
+
+    expect(output).toContain('Toko Kue');
+    expect(output).toContain('Jl. Melati 5');
+    expect(output).toContain('Order #42');
+    expect(output).toContain('Customer: Budi');
+    expect(output).toMatch(/TOTAL +Rp24\.000/);
+    expect(output).toMatch(/DIBAYAR \(transfer\) +Rp10\.000/);
+    expect(output).toMatch(/SISA +Rp14\.000/);
+    expect(output).toContain('Terima kasih');
+    expect(output).not.toContain('LUNAS');
+  });
+
+  it('marks a fully paid receipt', () => {
+    const output = buildCustomerReceipt(
+      makeOrder({ payments: [{ method: 'cash', amount: 30000 }] }),
+      { columns: 32, shop }
+    ).toString('latin1');
+
+    expect(output).toContain('LUNAS');
+    expect(output).toMatch(/KEMBALI +Rp6\.000/);
+    expect(output).not.toContain('SISA');
+  });
+
+  it('right-aligns amounts to the paper width', () => {
+    const output = buildCustomerReceipt(makeOrder(), { columns: 32, shop }).toString('latin1');
+    const totalLine = output.split('\n').find((line) => line.includes('TOTAL'))!;
+
+    expect(totalLine.replace(/\x1BE./g, '')).toHaveLength(32);
+  });
+
+  it('prints the order barcode and QR code on the documents configured for them', () => {
+    const receipt = buildCustomerReceipt(makeOrder(), { shop }).toString('latin1');
+    const ticket = buildKitchenTicket(makeOrder()).toString('latin1');
+    const label = buildPickupLabel(makeOrder()).toString('latin1');
+
+    expect(receipt).toContain('\x1Dk\x49\x0C{BLNQ-000042');
+    expect(receipt).toContain('\x1D(k\x0D\x00\x31\x50\x30LNQ-000042');
+    expect(ticket).not.toContain('LNQ-000042');
+    expect(label).toContain('{BLNQ-000042');
+    expect(label).not.toContain('\x1D(k');
+  });
+
+  it('lets the codes be chosen per document', () => {
+    process.env.PRINT_CODES_KITCHEN_TICKET = 'barcode';
+    process.env.ORDER_QR_URL = 'https://lnq.example/o/{id}';
+    try {
+      expect(buildKitchenTicket(makeOrder()).toString('latin1')).toContain('{BLNQ-000042');
+      expect(buildCustomerReceipt(makeOrder(), { shop }).toString('latin1')).toContain('https://lnq.example/o/42');
+      expect(buildCustomerReceipt(makeOrder(), { shop, codes: [] }).toString('latin1')).not.toContain('LNQ-');
+    } finally {
+      delete process.env.PRINT_CODES_KITCHEN_TICKET;
+      delete process.env.ORDER_QR_URL;
+    }
+  });
+
+  it('prints a kitchen ticket without prices', () => {
+    const output = buildKitchenTicket(makeOrder(), { columns: 32 }).toString('latin1');
+
+    expect(output).toContain('#42');
+    expect(output).toContain('Budi');
+    expect(output).toContain('Pickup: 2026-01-05');
+    expect(output).toContain('2x Bolu Pandan');
+    expect(output).toContain('(Tulisan HBD)');
+    expect(output).not.toContain('Rp');
+  });
+
+  it('prints a pickup label with what is left to pay', () => {
+    const output = buildPickupLabel(makeOrder(), { columns: 32 }).toString('latin1');
+
+    expect(output).toContain('Budi');
+    expect(output).toContain('Order #42');
+    expect(output).toContain('2x Bolu Pandan');
+    expect(output).toContain('SISA Rp14.000');
+  });
+
+  it('puts the logo above the shop name on receipts', () => {
+    const logo = Buffer.from([0x1d, 0x76, 0x30, 0, 1, 0, 1, 0, 0xff]);
+    const output = buildCustomerReceipt(makeOrder(), { columns: 32, shop, logo });
+
+    expect(output.indexOf(logo)).toBeGreaterThan(0);
+    expect(output.indexOf(logo)).toBeLessThan(output.indexOf('Toko Kue'));
+    expect(buildCustomerReceipt(makeOrder(), { columns: 32, shop }).indexOf(logo)).toBe(-1);
+  });
+
+  it('picks the layout by document type', () => {
+    const order = makeOrder();
+
+    expect(buildOrderDocument('kitchen_ticket', order)).toEqual(buildKitchenTicket(order));
+    expect(buildOrderDocument('pickup_label', order)).toEqual(buildPickupLabel(order));
+    expect(buildOrderDocument('receipt', order, { shop })).toEqual(buildCustomerReceipt(order, { shop }));
+  });
+
+  it('starts every document with init and ends with a cut', () => {
+    for (const output of [
+      buildCustomerReceipt(makeOrder(), { shop }),
+      buildKitchenTicket(makeOrder()),
+      buildPickupLabel(makeOrder()),
+    ]) {
+      expect(output.subarray(0, 2)).toEqual(Buffer.from([0x1b, 0x40]));
+      expect(output.subarray(-3)).toEqual(Buffer.from([0x1d, 0x56, 0x00]));
+    }
+  });
+});
@@ -0,0 +1,63 @@
+// Pure unit tests: images are rendered in memory, nothing is fetched from MinIO.
+
+import sharp from 'sharp';
+import { ditherToRaster, getPrinterDotWidth, renderRasterImage, LOGO_MAX_HEIGHT } from '../services/printLogo';
+
+function countBlack(data: Buffer): number {
+  return [...data].reduce((sum, byte) => sum + byte.toString(2).replace(/0/g, '').length, 0);
+}
+
+describe('print logo', () => {
+  it('uses the dot width of the paper', () => {
+    expect(getPrinterDotWidth(32)).toBe(384);
+    expect(getPrinterDotWidth(48)).toBe(576);
+  });
+
+  it('dithers grey pixels into a 1-bit raster', () => {
+    expect(ditherToRaster(new Uint8Array(16).fill(0), 16, 1).data).toEqual(Buffer.from([0xff, 0xff]));
+    expect(ditherToRaster(new Uint8Array(16).fill(255), 16, 1).data).toEqual(Buffer.from([0x00, 0x00]));
+
+    // Half grey comes out as every other dot
+    const grey = ditherToRaster(new Uint8Array(64 * 64).fill(128), 64, 64);
+    expect(countBlack(grey.data) / (64 * 64)).toBeCloseTo(0.5, 1);
+  });
+
+  it('pads rows to whole bytes', () => {
+    const raster = ditherToRaster(new Uint8Array(10 * 2).fill(0), 10, 2);
+
+    expect(raster).toEqual({ width: 10, height: 2, data: Buffer.from([0xff, 0xc0, 0xff, 0xc0]) });
+  });
+
+  it('centres a small logo on the paper and keeps transparency white', async () => {
+    const png = await sharp({
+      create: { width: 8, height: 4, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 1 } },
+    })
+      .extend({ left: 8, right: 8, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+
+    const raster = await renderRasterImage(png, 32);
+
+    expect(raster.width).toBe(32);
+    expect(raster.height).toBe(4);
+    // 24 wide image centred on 32 dots: 4 blank dots, 8 transparent, 8 black, 8 transparent, 4 blank
+    expect(raster.data.subarray(0, 4)).toEqual(Buffer.from([0x00, 0x0f, 0xf0, 0x00]));
+    expect(countBlack(raster.data)).toBe(8 * 4);
+  });
+
+  it('scales large images down to the paper width and maximum height', async () => {
+    const wide = await sharp({ create: { width: 2000, height: 500, channels: 3, background: '#000000' } })
+      .png()
+      .toBuffer();
+    const tall = await sharp({ create: { width: 300, height: 3000, channels: 3, background: '#000000' } })
+      .jpeg()
+      .toBuffer();
+
+    expect(await renderRasterImage(wide, 384)).toMatchObject({ width: 384, height: 96 });
+    expect((await renderRasterImage(tall, 384)).height).toBe(LOGO_MAX_HEIGHT);
+  });
+
+  it('rejects data that is not an image', async () => {
+    await expect(renderRasterImage(Buffer.from('not an image'), 384)).rejects.toThrow();
+  });
+});
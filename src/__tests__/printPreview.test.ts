@@ -0,0 +1,143 @@
+// Pure unit tests: previews are rendered from the same bytes the printer receives.
+
+import { EscPosBuilder } from '../services/escpos';
+import { buildCustomerReceipt, buildKitchenTicket, PrinterOrder } from '../services/printer';
+import { parseEscPos, renderPreviewHtml, renderPreviewText } from '../services/printPreview';
+
+const shop = { name: 'Toko Kue', address: 'Jl. Melati 5', footer: 'Terima kasih' };
+
+const order: PrinterOrder = {
+  id: 42,
+  customer: 'Budi',
+  date: new Date(2026, 0, 4, 10, 30),
+  pickupDate: '2026-01-05',
+  items: [
+    { name: 'Bolu Pandan', quantity: 2, price: 12000, lineTotal: 24000, notes: ['Tulisan HBD'] },
+  ],
+  totals: { subtotal: 24000, discount: 0, fee: 0, total: 24000 },
+  payments: [{ method: 'transfer', amount: 10000 }],
+};
+
+describe('print preview', () => {
+  it('renders a customer receipt as plain text', () => {
+    const content = buildCustomerReceipt(order, { columns: 32, shop });
+
+    expect(renderPreviewText(content, 32)).toBe(
+      [
+        '        T o k o   K u e',
+        '          Jl. Melati 5',
+        '',
+        'Order #42       2026-01-04 10:30',
+        'Customer: Budi',
+        'Pickup: 2026-01-05',
+        '--------------------------------',
+        'Bolu Pandan',
+        '  2 x Rp12.000          Rp24.000',
+        '   (Tulisan HBD)',
+        '--------------------------------',
+        'TOTAL                   Rp24.000',
+        'DIBAYAR (transfer)      Rp10.000',
+        'SISA                    Rp14.000',
+        '',
+        '      [BARCODE LNQ-000042]',
+        '        [QR LNQ-000042]',
+        '',
+        '          Terima kasih',
+        '',
+        '',
+        '- - - - - - - - - - - - - - - -',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders a kitchen ticket as plain text', () => {
+    const content = buildKitchenTicket(order, { columns: 32 });
+
+    expect(renderPreviewText(content, 32)).toBe(
+      [
+        '             # 4 2',
+        '            B u d i',
+        '       Pickup: 2026-01-05',
+        '',
+        '--------------------------------',
+        '2 x   B o l u   P a n d a n',
+        '   (Tulisan HBD)',
+        '--------------------------------',
+        '',
+        '',
+        '- - - - - - - - - - - - - - - -',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('wraps text that is wider than the paper', () => {
+    const content = new EscPosBuilder(10).size(2).line('ABCDEFG').build();
+
+    expect(renderPreviewText(content, 10)).toBe('A B C D E\nF G\n');
+  });
+
+  it('reads styles, barcodes and QR codes back from the bytes', () => {
+    const content = new EscPosBuilder(32)
+      .align('right')
+      .bold()
+      .underline()
+      .line('Lunas')
+      .bold(false)
+      .underline(false)
+      .barcode('ORD-42')
+      .qr('lnq:order:42')
+      .cut()
+      .build();
+
+    expect(parseEscPos(content)).toEqual([
+      {
+        kind: 'text',
+        align: 'right',
+        spans: [{ text: 'Lunas', bold: true, underline: true, width: 1, height: 1 }],
+      },
+      { kind: 'barcode', align: 'right', data: 'ORD-42' },
+      { kind: 'qr', align: 'right', data: 'lnq:order:42' },
+      { kind: 'cut' },
+    ]);
+
+    // Escaped braces read back as they were given
+    expect(parseEscPos(new EscPosBuilder(32).barcode('A{B}').build())).toEqual([
+      { kind: 'barcode', align: 'left', data: 'A{B}' },
+    ]);
+  });
+
+  it('skips over raster images without reading their bytes as text', () => {
+    // Image rows full of LF and ESC bytes
+    const image = { width: 16, height: 2, data: Buffer.from([0x0a, 0x1b, 0x1d, 0x0a]) };
+    const content = new EscPosBuilder(32).align('center').raster(image).line('Toko Kue').build();
+
+    expect(parseEscPos(content)).toEqual([
+      { kind: 'image', width: 16, height: 2 },
+      {
+        kind: 'text',
+        align: 'center',
+        spans: [{ text: 'Toko Kue', bold: false, underline: false, width: 1, height: 1 }],
+      },
+    ]);
+    expect(renderPreviewText(content, 32)).toBe('          [IMAGE 16x2]\n            Toko Kue\n');
+  });
+
+  it('decodes text with the selected code page', () => {
+    expect(renderPreviewText(new EscPosBuilder(32, 'cp437').line('Café ½').build(), 32)).toBe('Café ½\n');
+    expect(renderPreviewText(new EscPosBuilder(32, 'wpc1252').line('Crème “Lunas”').build(), 32)).toBe(
+      'Crème “Lunas”\n'
+    );
+  });
+
+  it('renders HTML with styles and escapes the text', () => {
+    const content = new EscPosBuilder(32).align('center').size(2).bold().line('<Budi & Ani>').build();
+    const html = renderPreviewHtml(content, 32);
+
+    expect(html).toContain('width:32ch');
+    expect(html).toContain('text-align:center');
+    expect(html).toContain('<span style="font-weight:bold;font-size:2em">&lt;Budi &amp; Ani&gt;</span>');
+    expect(html).not.toContain('<Budi');
+  });
+});
@@ -1,8 +1,11 @@
-import request from 'supertest';
-import app from '../index';
 import { db, closeConnection } from '../db';
 import { orders, orderItems, products } from '../db/schema';
+import { eq } from 'drizzle-orm';
 import { writeToPrinterDevice } from '../services/printer';
+import { parseAutoPrintRules } from '../services/orderPrinting';
+import { getImage } from '../services/minio';
+import sharp from 'sharp';
+import { authenticatedAgent, AuthenticatedAgent } from './helpers/auth';
 
 // Mock the printer service to avoid actual hardware interactions during tests
 
@@ -14,7 +17,21 @@ jest.mock('../services/printer', () => {
   };
 });
 
+jest.mock('../services/minio', () => {
+  const actual = jest.requireActual('../services/minio');
+  return {
+    ...actual,
+    getImage: jest.fn(),
+  };
+});
+
 describe('Printer Routes', () => {
+  let api: AuthenticatedAgent;
+
+  beforeAll(async () => {
+    api = await authenticatedAgent();
+  });
+
   let testProductId: number;
 
   beforeAll(async () => {
@@ -52,12 +69,333 @@ describe('Printer Routes', () => {
       priceAtSale: 12000,
     });
 
-    const res = await request(app).post(`/api/printer/orders/${orderId}/print`).expect(200);
+    const res = await api.post(`/api/printer/orders/${orderId}/print`).expect(200);
 
     expect(res.body.success).toBe(true);
     expect(typeof res.body.data.orderId).toBe('number');
     expect(res.body.data.orderId).toBe(orderId);
     expect(typeof res.body.data).toBe('object');
     expect(writeToPrinterDevice).toHaveBeenCalled();
+    expect(res.body.data.document).toBe('receipt');
+  });
+
+  it('POST /api/printer/orders/:id/print should print the requested document', async () => {
+    const orderResult = await db
+      .insert(orders)
+      .values({
+        customerName: 'Kitchen Customer',
+      })
+      .returning();
+
+    const orderId = orderResult[0].id;
+
+    await db.insert(orderItems).values({
+      orderId,
+      productId: testProductId,
+      amount: 1,
+      priceAtSale: 12000,
+    });
+
+    const res = await api.post(`/api/printer/orders/${orderId}/print?document=kitchen_ticket`).expect(200);
+
+    expect(res.body.data.document).toBe('kitchen_ticket');
+    expect(res.body.data.job.kind).toBe('kitchen_ticket');
+    const [, content] = (writeToPrinterDevice as jest.Mock).mock.lastCall;
+    expect(content.toString('latin1')).toContain('Test Product for Printer');
+    expect(content.toString('latin1')).not.toContain('Rp');
+
+    await api.post(`/api/printer/orders/${orderId}/print?document=invoice`).expect(400);
+  });
+
+  it('GET /api/printer/orders/:id/preview should render the document without printing', async () => {
+    const orderResult = await db
+      .insert(orders)
+      .values({
+        customerName: 'Preview Customer',
+      })
+      .returning();
+
+    const orderId = orderResult[0].id;
+
+    await db.insert(orderItems).values({
+      orderId,
+      productId: testProductId,
+      amount: 2,
+      priceAtSale: 12000,
+    });
+
+    (writeToPrinterDevice as jest.Mock).mockClear();
+
+    const res = await api.get(`/api/printer/orders/${orderId}/preview`).expect(200);
+
+    expect(res.body.data.document).toBe('receipt');
+    expect(res.body.data.text).toContain('Customer: Preview Customer');
+    expect(res.body.data.text).toContain('Test Product for Printer');
+    expect(res.body.data.html).toContain('escpos-preview');
+    expect(writeToPrinterDevice).not.toHaveBeenCalled();
+
+    const text = await api.get(`/api/printer/orders/${orderId}/preview?document=kitchen_ticket&format=text`).expect(200);
+    expect(text.headers['content-type']).toContain('text/plain');
+    expect(text.text).not.toContain('Rp');
+
+    const html = await api.get(`/api/printer/orders/${orderId}/preview?format=html`).expect(200);
+    expect(html.headers['content-type']).toContain('text/html');
+  });
+
+  it('POST /api/printer/prep-list/print should print the prep list for a date', async () => {
+    const orderResult = await db
+      .insert(orders)
+      .values({
+        customerName: 'Prep Customer',
+        pickupDate: '2026-02-14',
+      })
+      .returning();
+
+    await db.insert(orderItems).values({
+      orderId: orderResult[0].id,
+      productId: testProductId,
+      amount: 3,
+      priceAtSale: 12000,
+    });
+
+    const res = await api.post('/api/printer/prep-list/print?date=2026-02-14').expect(200);
+
+    expect(res.body.success).toBe(true);
+    expect(res.body.data.from).toBe('2026-02-14');
+    expect(res.body.data.to).toBe('2026-02-14');
+    const [devicePath, content] = (writeToPrinterDevice as jest.Mock).mock.lastCall;
+    expect(devicePath).toBe('/dev/usb/lp0');
+    expect(content.toString('latin1')).toContain('Test Product for Printer');
+  });
+
+  it('POST /api/printer/prep-list/print should require a date', async () => {
+    const res = await api.post('/api/printer/prep-list/print').expect(400);
+    expect(res.body.success).toBe(false);
+  });
+
+  describe('print jobs', () => {
+    const printMock = writeToPrinterDevice as jest.Mock;
+
+    async function createOrder(customerName: string): Promise<number> {
+      const orderResult = await db.insert(orders).values({ customerName }).returning();
+      await db.insert(orderItems).values({
+        orderId: orderResult[0].id,
+        productId: testProductId,
+        amount: 1,
+        priceAtSale: 12000,
+      });
+      return orderResult[0].id;
+    }
+
+    afterEach(() => {
+      delete process.env.PRINT_MAX_ATTEMPTS;
+    });
+
+    it('should record every print in the job history', async () => {
+      const orderId = await createOrder('Job History');
+
+      const res = await api.post(`/api/printer/orders/${orderId}/print`).expect(200);
+      expect(res.body.data.printed).toBe(true);
+      expect(res.body.data.job).toMatchObject({ status: 'done', attempts: 1, orderId, kind: 'receipt' });
+      expect(res.body.data.job.content).toBeUndefined();
+
+      const list = await api.get(`/api/printer/jobs?orderId=${orderId}`).expect(200);
+      expect(list.body.data).toHaveLength(1);
+      expect(list.body.data[0].size).toBeGreaterThan(0);
+    });
+
+    it('should queue a failed print for a retry and let it be retried or cancelled', async () => {
+      const orderId = await createOrder('Printer Offline');
+      printMock.mockRejectedValueOnce(new Error('Printer offline'));
+
+      const res = await api.post(`/api/printer/orders/${orderId}/print`).expect(202);
+      expect(res.body.data.printed).toBe(false);
+      const job = res.body.data.job;
+      expect(job).toMatchObject({ status: 'queued', attempts: 1, lastError: 'Printer offline' });
+      expect(new Date(job.nextAttemptAt).getTime()).toBeGreaterThan(Date.now());
+
+      // Queued jobs can't be retried by hand, only cancelled
+      await api.post(`/api/printer/jobs/${job.id}/retry`).expect(409);
+
+      const cancelled = await api.post(`/api/printer/jobs/${job.id}/cancel`).expect(200);
+      expect(cancelled.body.data.status).toBe('cancelled');
+
+      const retried = await api.post(`/api/printer/jobs/${job.id}/retry`).expect(200);
+      expect(retried.body.data.job).toMatchObject({ status: 'done', attempts: 1, lastError: null });
+
+      await api.post(`/api/printer/jobs/${job.id}/cancel`).expect(409);
+    });
+
+    it('should mark a job failed when no attempts are left', async () => {
+      process.env.PRINT_MAX_ATTEMPTS = '1';
+      const orderId = await createOrder('Out Of Paper');
+      printMock.mockRejectedValueOnce(new Error('Out of paper'));
+
+      const res = await api.post(`/api/printer/orders/${orderId}/print`).expect(502);
+      expect(res.body.success).toBe(false);
+      expect(res.body.message).toContain('Out of paper');
+      expect(res.body.job.status).toBe('failed');
+
+      const failed = await api.get(`/api/printer/jobs?status=failed&orderId=${orderId}`).expect(200);
+      expect(failed.body.data.map((j: any) => j.id)).toEqual([res.body.job.id]);
+    });
+
+    it('should reprint the exact bytes of an earlier job', async () => {
+      const orderId = await createOrder('Original Name');
+
+      const first = await api.post(`/api/printer/orders/${orderId}/print`).expect(200);
+      const originalBytes: Buffer = printMock.mock.lastCall[1];
+
+      // Later edits must not change what a reprint looks like
+      await db.update(orders).set({ customerName: 'Edited Name' }).where(eq(orders.id, orderId));
+
+      const reprint = await api.post(`/api/printer/jobs/${first.body.data.job.id}/reprint`).expect(200);
+      expect(reprint.body.data.job.reprintOf).toBe(first.body.data.job.id);
+      expect(reprint.body.data.job.id).not.toBe(first.body.data.job.id);
+
+      const reprintedBytes: Buffer = printMock.mock.lastCall[1];
+      expect(reprintedBytes.equals(originalBytes)).toBe(true);
+      expect(reprintedBytes.toString('latin1')).toContain('Original Name');
+    });
+
+    it('should return 404 for unknown jobs', async () => {
+      await api.get('/api/printer/jobs/999999999').expect(404);
+      await api.post('/api/printer/jobs/999999999/reprint').expect(404);
+    });
+  });
+
+  describe('auto print', () => {
+    const printMock = writeToPrinterDevice as jest.Mock;
+
+    // Auto prints run after the response, so wait for their jobs to be attempted
+    async function waitForJobs(orderId: number, count: number): Promise<any[]> {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const res = await api.get(`/api/printer/jobs?orderId=${orderId}`).expect(200);
+        const jobs: any[] = res.body.data;
+        if (jobs.length >= count && jobs.every((job) => job.attempts > 0)) return jobs;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      throw new Error(`Expected ${count} print jobs for order ${orderId}`);
+    }
+
+    afterEach(() => {
+      delete process.env.AUTO_PRINT_RULES;
+    });
+
+    it('should parse rules and skip the ones it does not understand', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const rules = parseAutoPrintRules(
+        ' created:kitchen_ticket , paid:receipt,ready:pickup_label@counter-label,bogus,shipped:receipt,created:invoice,' +
+          'ready:receipt@Counter Label'
+      );
+
+      expect(rules).toEqual([
+        { event: 'created', document: 'kitchen_ticket' },
+        { event: 'paid', document: 'receipt' },
+        { event: 'ready', document: 'pickup_label', printer: 'counter-label' },
+      ]);
+      expect(parseAutoPrintRules(undefined)).toEqual([]);
+      expect(warn).toHaveBeenCalledTimes(4);
+      expect(warn).toHaveBeenLastCalledWith(expect.stringContaining('not a valid printer name'));
+
+      warn.mockRestore();
+    });
+
+    it('should print on order creation, full payment and status changes', async () => {
+      process.env.AUTO_PRINT_RULES = 'created:kitchen_ticket,paid:receipt,ready:pickup_label';
+
+      const created = await api
+        .post('/api/orders')
+        .send({ customerName: 'Auto Print', items: [{ itemType: 'product', productId: testProductId, amount: 1 }] })
+        .expect(201);
+      const orderId = created.body.data.id;
+
+      expect((await waitForJobs(orderId, 1)).map((job) => job.kind)).toEqual(['kitchen_ticket']);
+
+      // A partial payment doesn't settle the order
+      await api.post(`/api/orders/${orderId}/payments`).send({ amount: 2000, method: 'cash' }).expect(201);
+      await api.post(`/api/orders/${orderId}/payments`).send({ amount: 10000, method: 'cash' }).expect(201);
+      expect((await waitForJobs(orderId, 2)).map((job) => job.kind)).toContain('receipt');
+
+      await api.post(`/api/orders/${orderId}/status`).send({ status: 'in_production' }).expect(200);
+      await api.post(`/api/orders/${orderId}/status`).send({ status: 'ready' }).expect(200);
+
+      const jobs = await waitForJobs(orderId, 3);
+      expect(jobs.map((job) => job.kind).sort()).toEqual(['kitchen_ticket', 'pickup_label', 'receipt']);
+    });
+
+    it('should not fail the request when printing fails', async () => {
+      process.env.AUTO_PRINT_RULES = 'created:kitchen_ticket';
+      printMock.mockRejectedValueOnce(new Error('Printer offline'));
+
+      const created = await api
+        .post('/api/orders')
+        .send({ customerName: 'Auto Print Offline', items: [{ itemType: 'product', productId: testProductId, amount: 1 }] })
+        .expect(201);
+
+      const [job] = await waitForJobs(created.body.data.id, 1);
+      expect(job.kind).toBe('kitchen_ticket');
+      expect(job.lastError).toBe('Printer offline');
+    });
+  });
+
+  describe('receipt logo', () => {
+    const getImageMock = getImage as jest.Mock;
+    let logo: Buffer;
+
+    beforeAll(async () => {
+      logo = await sharp({ create: { width: 64, height: 16, channels: 3, background: '#000000' } }).png().toBuffer();
+      getImageMock.mockResolvedValue(logo);
+    });
+
+    afterAll(async () => {
+      await api.delete('/api/printer/logo');
+    });
+
+    it('should print an uploaded logo on receipts only', async () => {
+      const upload = await api
+        .put('/api/printer/logo')
+        .attach('image', logo, { filename: 'logo.png', contentType: 'image/png' })
+        .expect(200);
+      const { imageId } = upload.body.data;
+      expect(imageId).toMatch(/^[0-9a-f]{64}\.png$/);
+
+      const current = await api.get('/api/printer/logo').expect(200);
+      expect(current.body.data.imageId).toBe(imageId);
+
+      const orderResult = await db.insert(orders).values({ customerName: 'Logo Customer' }).returning();
+      const orderId = orderResult[0].id;
+
+      const receipt = await api.get(`/api/printer/orders/${orderId}/preview?format=text`).expect(200);
+      expect(receipt.text).toMatch(/\[IMAGE \d+x16\]/);
+      expect(getImageMock).toHaveBeenCalledWith(imageId);
+
+      const ticket = await api
+        .get(`/api/printer/orders/${orderId}/preview?format=text&document=kitchen_ticket`)
+        .expect(200);
+      expect(ticket.text).not.toContain('[IMAGE');
+    });
+
+    it('should reject files that are not readable images', async () => {
+      const res = await api
+        .put('/api/printer/logo')
+        .attach('image', Buffer.from('not an image'), { filename: 'logo.png', contentType: 'image/png' })
+        .expect(400);
+
+      expect(res.body.success).toBe(false);
+      await api.put('/api/printer/logo').expect(400);
+    });
+
+    it('should remove the logo', async () => {
+      await api
+        .put('/api/printer/logo')
+        .attach('image', logo, { filename: 'logo.png', contentType: 'image/png' })
+        .expect(200);
+
+      await api.delete('/api/printer/logo').expect(200);
+      await api.get('/api/printer/logo').expect(404);
+      await api.delete('/api/printer/logo').expect(404);
+    });
   });
 });
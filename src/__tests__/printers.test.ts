@@ -0,0 +1,340 @@
+import net, { AddressInfo } from 'net';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { db, closeConnection } from '../db';
+import { orders, orderItems, printers, products } from '../db/schema';
+import { inArray } from 'drizzle-orm';
+import { queryPrinterSocketStatus, writeToPrinterDevice, writeToPrinterSocket } from '../services/printer';
+import { resolvePrintTarget } from '../services/printers';
+import { authenticatedAgent, AuthenticatedAgent } from './helpers/auth';
+
+// Integration tests for the printer registry and network (raw TCP) printing.
+// A local TCP server stands in for an Ethernet printer on port 9100.
+
+type FakePrinter = {
+  port: number;
+  received: () => Buffer;
+  connections: () => number;
+  // Replies to DLE EOT 1, 2 and 4
+  setStatus: (status: Record<1 | 2 | 4, number>) => void;
+  close: () => Promise<void>;
+};
+
+const READY_STATUS = { 1: 0x12, 2: 0x12, 4: 0x12 };
+
+async function startFakePrinter(): Promise<FakePrinter> {
+  const chunks: Buffer[] = [];
+  let connections = 0;
+  let status: Record<number, number> = READY_STATUS;
+  const server = net.createServer((socket) => {
+    connections++;
+    socket.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      for (let i = 0; i + 2 < chunk.length; i++) {
+        if (chunk[i] === 0x10 && chunk[i + 1] === 0x04 && status[chunk[i + 2]] !== undefined) {
+          socket.write(Buffer.from([status[chunk[i + 2]]]));
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    received: () => Buffer.concat(chunks),
+    connections: () => connections,
+    setStatus: (next) => {
+      status = next;
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+// Resolves once the fake printer has seen `length` bytes (the socket write is
+// finished before the server has necessarily read everything)
+async function waitForBytes(printer: FakePrinter, length: number): Promise<Buffer> {
+  for (let i = 0; i < 50 && printer.received().length < length; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return printer.received();
+}
+
+async function closedPort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+describe('Printers', () => {
+  let api: AuthenticatedAgent;
+  let fakePrinter: FakePrinter;
+  let orderId: number;
+  const suffix = Date.now();
+  const createdPrinterIds: number[] = [];
+
+  beforeAll(async () => {
+    api = await authenticatedAgent();
+    fakePrinter = await startFakePrinter();
+
+    const product = await db.insert(products).values({ name: 'TCP Print Cake', price: 50000 }).returning();
+    const order = await db.insert(orders).values({ customerName: 'Network Print' }).returning();
+    orderId = order[0].id;
+    await db.insert(orderItems).values({ orderId, productId: product[0].id, amount: 2, priceAtSale: 50000 });
+  });
+
+  afterAll(async () => {
+    if (createdPrinterIds.length > 0) {
+      await db.delete(printers).where(inArray(printers.id, createdPrinterIds));
+    }
+    await fakePrinter.close();
+    await closeConnection();
+  });
+
+  async function registerPrinter(body: Record<string, unknown>) {
+    const res = await api.post('/api/printer/printers').send(body).expect(201);
+    createdPrinterIds.push(res.body.data.id);
+    return res.body.data;
+  }
+
+  describe('writeToPrinterSocket', () => {
+    it('should send the exact bytes over TCP', async () => {
+      const before = fakePrinter.received().length;
+      const content = Buffer.from([0x1b, 0x40, 0x41, 0x00, 0x1d, 0x56, 0x00]);
+
+      await writeToPrinterSocket('127.0.0.1', fakePrinter.port, content);
+
+      const received = await waitForBytes(fakePrinter, before + content.length);
+      expect(received.subarray(before).equals(content)).toBe(true);
+    });
+
+    it('should reject when the printer is unreachable', async () => {
+      await expect(writeToPrinterSocket('127.0.0.1', await closedPort(), Buffer.from('x'))).rejects.toThrow();
+    });
+  });
+
+  describe('writeToPrinterDevice', () => {
+    it('should write the bytes to the device file', async () => {
+      const device = path.join(os.tmpdir(), `printer-${suffix}`);
+      try {
+        await writeToPrinterDevice(device, Buffer.from('receipt'));
+        expect(await fs.readFile(device, 'utf8')).toBe('receipt');
+      } finally {
+        await fs.rm(device, { force: true });
+      }
+    });
+
+    it('should give up on a device that hangs without printing late', async () => {
+      // Opening a FIFO for writing blocks until someone reads, like a hung USB printer
+      const device = path.join(os.tmpdir(), `hung-printer-${suffix}`);
+      execFileSync('mkfifo', [device]);
+      try {
+        await expect(writeToPrinterDevice(device, Buffer.from('receipt'), 100)).rejects.toThrow('timed out');
+
+        // The device wakes up: the abandoned write must not send anything
+        const reader = await fs.open(device, 'r');
+        const { bytesRead } = await reader.read(Buffer.alloc(16), 0, 16, null);
+        await reader.close();
+        expect(bytesRead).toBe(0);
+      } finally {
+        await fs.rm(device, { force: true });
+      }
+    });
+  });
+
+  describe('status', () => {
+    afterEach(() => {
+      fakePrinter.setStatus(READY_STATUS);
+    });
+
+    it('should read the real-time status of a network printer', async () => {
+      const ready = await queryPrinterSocketStatus('127.0.0.1', fakePrinter.port);
+      expect(ready).toEqual({
+        reachable: true,
+        online: true,
+        coverOpen: false,
+        paperOut: false,
+        paperLow: false,
+        error: false,
+        message: null,
+      });
+
+      // Offline because the paper ran out; the roll sensor reports near end and end
+      fakePrinter.setStatus({ 1: 0x1a, 2: 0x32, 4: 0x7e });
+      const empty = await queryPrinterSocketStatus('127.0.0.1', fakePrinter.port);
+      expect(empty).toMatchObject({ reachable: true, online: false, paperOut: true, paperLow: true, coverOpen: false });
+    });
+
+    it('should report unreachable and silent printers without throwing', async () => {
+      const offline = await queryPrinterSocketStatus('127.0.0.1', await closedPort());
+      expect(offline.reachable).toBe(false);
+      expect(offline.message).toBeTruthy();
+
+      fakePrinter.setStatus({} as never);
+      const silent = await queryPrinterSocketStatus('127.0.0.1', fakePrinter.port, 200);
+      expect(silent).toMatchObject({ reachable: true, online: null, message: 'No status reply' });
+    });
+
+    it('GET /api/printer/status should report each printer', async () => {
+      const printer = await registerPrinter({
+        name: `status-${suffix}`,
+        transport: 'tcp',
+        host: '127.0.0.1',
+        port: fakePrinter.port,
+      });
+      fakePrinter.setStatus({ 1: 0x12, 2: 0x16, 4: 0x12 });
+
+      const res = await api.get(`/api/printer/status?printer=${printer.name}`).expect(200);
+      expect(res.body.data).toHaveLength(1);
+      expect(res.body.data[0]).toMatchObject({ printerId: printer.id, ready: false, status: { coverOpen: true } });
+
+      await api.get(`/api/printer/status?printer=missing-${suffix}`).expect(404);
+    });
+
+    it('GET /health should not ask the printers on every probe', async () => {
+      await registerPrinter({ name: `health-${suffix}`, transport: 'tcp', host: '127.0.0.1', port: fakePrinter.port });
+      const before = fakePrinter.connections();
+
+      await api.get('/health').expect(200);
+      const checked = fakePrinter.connections();
+      await api.get('/health').expect(200);
+
+      expect(checked).toBeGreaterThan(before);
+      expect(fakePrinter.connections()).toBe(checked);
+    });
+  });
+
+  describe('registry', () => {
+    it('should register, list, update and remove printers', async () => {
+      const printer = await registerPrinter({
+        name: `kitchen-${suffix}`,
+        transport: 'tcp',
+        host: '127.0.0.1',
+        port: fakePrinter.port,
+        role: 'kitchen',
+      });
+      expect(printer).toMatchObject({ transport: 'tcp', paperWidth: 80, role: 'kitchen', active: true });
+
+      const list = await api.get('/api/printer/printers').expect(200);
+      expect(list.body.data.map((p: any) => p.id)).toContain(printer.id);
+
+      const updated = await api.put(`/api/printer/printers/${printer.id}`).send({ paperWidth: 58 }).expect(200);
+      expect(updated.body.data.paperWidth).toBe(58);
+
+      await api.delete(`/api/printer/printers/${printer.id}`).expect(200);
+      await api.get(`/api/printer/printers/${printer.id}`).expect(404);
+    });
+
+    it('should validate transport settings and unique names', async () => {
+      await api.post('/api/printer/printers').send({ name: `no-host-${suffix}`, transport: 'tcp' }).expect(400);
+      await api.post('/api/printer/printers').send({ name: `no-path-${suffix}`, transport: 'device' }).expect(400);
+      await api
+        .post('/api/printer/printers')
+        .send({ name: `bad-width-${suffix}`, transport: 'device', devicePath: '/dev/null', paperWidth: 70 })
+        .expect(400);
+
+      const printer = await registerPrinter({ name: `counter-${suffix}`, transport: 'device', devicePath: '/dev/null' });
+
+      await api.post('/api/printer/printers').send({ name: `counter-${suffix}`, transport: 'device', devicePath: '/dev/null' }).expect(409);
+
+      // Switching to tcp needs a host
+      await api.put(`/api/printer/printers/${printer.id}`).send({ transport: 'tcp' }).expect(400);
+    });
+
+    it('should only let the owner manage printers', async () => {
+      const kitchen = await authenticatedAgent('kitchen');
+
+      await kitchen.get('/api/printer/printers').expect(200);
+      await kitchen
+        .post('/api/printer/printers')
+        .send({ name: `forbidden-${suffix}`, transport: 'device', devicePath: '/dev/null' })
+        .expect(403);
+    });
+
+    it('should resolve the first active printer for a role', async () => {
+      const inactive = await registerPrinter({
+        name: `label-off-${suffix}`,
+        transport: 'device',
+        devicePath: '/dev/null',
+        role: 'label',
+        active: false,
+      });
+      const label = await registerPrinter({
+        name: `label-${suffix}`,
+        transport: 'device',
+        devicePath: '/dev/null',
+        role: 'label',
+        paperWidth: 58,
+      });
+
+      const target = await resolvePrintTarget('label');
+      expect(target?.printerId).not.toBe(inactive.id);
+      expect(target?.columns).toBe(32);
+
+      expect((await resolvePrintTarget('label', label.name))?.printerId).toBe(label.id);
+      expect(await resolvePrintTarget('label', inactive.name)).toBeNull();
+    });
+  });
+
+  describe('printing to a named printer', () => {
+    it('should print an order over TCP', async () => {
+      const printer = await registerPrinter({
+        name: `net-${suffix}`,
+        transport: 'tcp',
+        host: '127.0.0.1',
+        port: fakePrinter.port,
+      });
+      const before = fakePrinter.received().length;
+
+      const res = await api.post(`/api/printer/orders/${orderId}/print?printer=${printer.name}`).expect(200);
+      expect(res.body.data.printerId).toBe(printer.id);
+      expect(res.body.data.job).toMatchObject({ status: 'done', printerId: printer.id, devicePath: null });
+
+      const received = await waitForBytes(fakePrinter, before + res.body.data.job.size);
+      const text = received.subarray(before).toString('latin1');
+      expect(text.startsWith('\x1B@')).toBe(true);
+      expect(text).toContain('Network Print');
+      // 80 mm paper: 48 columns
+      expect(text).toContain('-'.repeat(48));
+    });
+
+    it('should queue a retry when the network printer is unreachable', async () => {
+      const printer = await registerPrinter({
+        name: `offline-${suffix}`,
+        transport: 'tcp',
+        host: '127.0.0.1',
+        port: await closedPort(),
+      });
+
+      const res = await api.post(`/api/printer/orders/${orderId}/print?printer=${printer.name}`).expect(202);
+      expect(res.body.data.job.status).toBe('queued');
+      expect(res.body.data.job.lastError).toBeTruthy();
+
+      await api.post(`/api/printer/jobs/${res.body.data.job.id}/cancel`).expect(200);
+    });
+
+    it('should reject unknown printers', async () => {
+      const res = await api.post(`/api/printer/orders/${orderId}/print?printer=does-not-exist`).expect(400);
+      expect(res.body.success).toBe(false);
+    });
+
+    it('should keep jobs when their printer is removed', async () => {
+      const printer = await registerPrinter({
+        name: `removed-${suffix}`,
+        transport: 'tcp',
+        host: '127.0.0.1',
+        port: fakePrinter.port,
+      });
+
+      const res = await api.post(`/api/printer/orders/${orderId}/print?printer=${printer.name}`).expect(200);
+      await api.delete(`/api/printer/printers/${printer.id}`).expect(200);
+
+      const job = await api.get(`/api/printer/jobs/${res.body.data.job.id}`).expect(200);
+      expect(job.body.data.printerId).toBeNull();
+    });
+  });
+});
@@ -1,11 +1,28 @@
-import request from 'supertest';
-import app from '../index';
 import { db, closeConnection } from '../db';
 import { products } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { deleteImage, imageExists } from '../services/minio';
+import { authenticatedAgent, AuthenticatedAgent } from './helpers/auth';
+import { testPng } from './helpers/images';
 
 // Integration tests for product management and file upload endpoints
 
+jest.mock('../services/minio', () => {
+  const actual = jest.requireActual('../services/minio');
+  return {
+    ...actual,
+    imageExists: jest.fn().mockResolvedValue(true),
+    deleteImage: jest.fn().mockResolvedValue(undefined),
+  };
+});
+
 describe('Products Routes', () => {
+  let api: AuthenticatedAgent;
+
+  beforeAll(async () => {
+    api = await authenticatedAgent();
+  });
+
   beforeAll(async () => {
     // Create test product
     await db.insert(products).values({
@@ -22,7 +39,7 @@ describe('Products Routes', () => {
 
   describe('GET /api/products', () => {
     it('should return all products', async () => {
-      const res = await request(app)
+      const res = await api
         .get('/api/products')
         .expect(200);
 
@@ -46,7 +63,7 @@ describe('Products Routes', () => {
       const testProduct = allProducts[0];
 
       if (testProduct) {
-        const res = await request(app)
+        const res = await api
           .get(`/api/products/${testProduct.id}`)
           .expect(200);
 
@@ -59,7 +76,7 @@ describe('Products Routes', () => {
     });
 
     it('should return 404 for non-existent product', async () => {
-      const res = await request(app)
+      const res = await api
         .get('/api/products/999999')
         .expect(404);
 
@@ -68,7 +85,7 @@ describe('Products Routes', () => {
     });
 
     it('should return 400 for invalid product ID', async () => {
-      const res = await request(app)
+      const res = await api
         .get('/api/products/invalid')
         .expect(400);
 
@@ -79,7 +96,7 @@ describe('Products Routes', () => {
 
   describe('POST /api/products', () => {
     it('should create a new product with JSON', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/products')
         .send({
           name: 'New Product',
@@ -96,12 +113,12 @@ describe('Products Routes', () => {
     });
 
     it('should create a new product with file upload', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/products')
         .field('name', 'Product with Image')
         .field('price', '75000')
         .field('description', 'Product with an image')
-        .attach('image', Buffer.from('fake image content'), 'test-image.png')
+        .attach('image', await testPng(), 'test-image.png')
         .expect(201);
 
       expect(res.body.success).toBe(true);
@@ -112,7 +129,7 @@ describe('Products Routes', () => {
     });
 
     it('should reject non-image files', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/products')
         .field('name', 'Invalid Product')
         .field('price', '50000')
@@ -124,7 +141,7 @@ describe('Products Routes', () => {
     });
 
     it('should validate required fields', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/products')
         .send({
           description: 'Missing name and price',
@@ -136,7 +153,7 @@ describe('Products Routes', () => {
     });
 
     it('should validate price is positive', async () => {
-      const res = await request(app)
+      const res = await api
         .post('/api/products')
         .send({
           name: 'Invalid Product',
@@ -158,7 +175,7 @@ describe('Products Routes', () => {
     });
 
     it('should update a product', async () => {
-      const res = await request(app)
+      const res = await api
         .put(`/api/products/${productId}`)
         .send({
           name: 'Updated Product',
@@ -173,7 +190,7 @@ describe('Products Routes', () => {
     });
 
     it('should return 404 for non-existent product', async () => {
-      const res = await request(app)
+      const res = await api
         .put('/api/products/999999')
         .send({
           name: 'Non-existent',
@@ -197,7 +214,7 @@ describe('Products Routes', () => {
     });
 
     it('should delete a product', async () => {
-      const res = await request(app)
+      const res = await api
         .delete(`/api/products/${productId}`)
         .expect(200);
 
@@ -206,7 +223,7 @@ describe('Products Routes', () => {
     });
 
     it('should return 404 when deleting non-existent product', async () => {
-      const res = await request(app)
+      const res = await api
         .delete('/api/products/999999')
         .expect(404);
 
@@ -214,4 +231,94 @@ describe('Products Routes', () => {
       expect(res.body.message).toMatch(/not found/i);
     });
   });
+
+  describe('product images', () => {
+    const imageExistsMock = imageExists as jest.Mock;
+    const deleteImageMock = deleteImage as jest.Mock;
+
+    async function createProduct(imageId: string | null): Promise<number> {
+      const result = await db.insert(products).values({ name: 'Photo Product', price: 10000, imageId }).returning();
+      return result[0].id;
+    }
+
+    // Unique per run, so products left over from earlier runs don't share the image
+    const photo = (name: string) => `${Date.now()}-${name}`;
+
+    beforeEach(() => {
+      deleteImageMock.mockClear();
+    });
+
+    it('should replace the photo and delete the old one', async () => {
+      const oldPhoto = photo('old-photo.png');
+      const productId = await createProduct(oldPhoto);
+
+      const res = await api
+        .put(`/api/products/${productId}/image`)
+        .attach('image', await testPng(12, 12), 'new-photo.png')
+        .expect(200);
+
+      expect(res.body.data.imageId).toMatch(/^[0-9a-f]{64}\.png$/);
+      expect(deleteImageMock).toHaveBeenCalledWith(oldPhoto);
+    });
+
+    it('should keep an old photo another product still uses', async () => {
+      const sharedPhoto = photo('shared-photo.png');
+      const productId = await createProduct(sharedPhoto);
+      await createProduct(sharedPhoto);
+
+      await api
+        .put(`/api/products/${productId}/image`)
+        .attach('image', await testPng(12, 12), 'new-photo.png')
+        .expect(200);
+
+      expect(deleteImageMock).not.toHaveBeenCalled();
+    });
+
+    it('should require an image file and an existing product', async () => {
+      const productId = await createProduct(null);
+
+      await api.put(`/api/products/${productId}/image`).expect(400);
+      await api.put('/api/products/999999/image').attach('image', await testPng(), 'photo.png').expect(404);
+    });
+
+    it('should return 404 when the product is deleted before it is updated', async () => {
+      const gone = { id: 999998, name: 'Gone Product', price: 10000, imageId: photo('gone.png') };
+      const findFirst = jest.spyOn(db.query.products, 'findFirst');
+
+      findFirst.mockResolvedValueOnce(gone as any);
+      await api.put(`/api/products/${gone.id}`).send({ name: 'Renamed' }).expect(404);
+
+      findFirst.mockResolvedValueOnce(gone as any);
+      await api
+        .put(`/api/products/${gone.id}/image`)
+        .attach('image', await testPng(12, 12), 'new-photo.png')
+        .expect(404);
+
+      findFirst.mockRestore();
+      expect(deleteImageMock).not.toHaveBeenCalledWith(gone.imageId);
+    });
+
+    it('should reject an imageId that is not in the bucket', async () => {
+      const productId = await createProduct(null);
+      imageExistsMock.mockResolvedValueOnce(false);
+
+      const res = await api.put(`/api/products/${productId}`).send({ imageId: 'missing.png' }).expect(400);
+      expect(res.body.errors.imageId).toBe('Image not found');
+
+      imageExistsMock.mockResolvedValueOnce(false);
+      await api.post('/api/products').send({ name: 'Ghost Photo', price: 10000, imageId: 'missing.png' }).expect(400);
+    });
+
+    it('should remove the photo with a null imageId', async () => {
+      const removedPhoto = photo('removed-photo.png');
+      const productId = await createProduct(removedPhoto);
+
+      const res = await api.put(`/api/products/${productId}`).send({ imageId: null }).expect(200);
+
+      expect(res.body.data.imageId).toBeNull();
+      expect(deleteImageMock).toHaveBeenCalledWith(removedPhoto);
+      const product = await db.query.products.findFirst({ where: eq(products.id, productId) });
+      expect(product?.imageId).toBeNull();
+    });
+  });
 });
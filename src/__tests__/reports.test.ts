@@ -0,0 +1,107 @@
+import { db, closeConnection } from '../db';
+import { orders, orderItems, products } from '../db/schema';
+import { authenticatedAgent, AuthenticatedAgent } from './helpers/auth';
+
+// Integration tests for sales reports. Orders are placed in May 2031 so the
+// report ranges don't pick up rows created by other test files.
+
+describe('Reports Routes', () => {
+  let api: AuthenticatedAgent;
+
+  beforeAll(async () => {
+    api = await authenticatedAgent();
+  });
+
+  let cakeId: number;
+  let cookieId: number;
+
+  beforeAll(async () => {
+    const created = await db.insert(products).values([
+      { name: 'Report Cake', price: 999999 }, // current price must NOT be used
+      { name: 'Report Cookie', price: 999999 },
+    ]).returning();
+    cakeId = created[0].id;
+    cookieId = created[1].id;
+
+    const placed = await db.insert(orders).values([
+      // 2031-05-01 10:00 Jakarta
+      { customerName: 'Report A', createdAt: new Date('2031-05-01T03:00:00.000Z') },
+      // 2031-05-01 23:30 Jakarta (still 1 May locally, 2 May would be wrong)
+      { customerName: 'Report B', createdAt: new Date('2031-05-01T16:30:00.000Z'), discount: 10000, fee: 5000 },
+      // 2031-05-02 09:00 Jakarta
+      { customerName: 'Report C', createdAt: new Date('2031-05-02T02:00:00.000Z') },
+      // cancelled orders never count
+      { customerName: 'Report D', createdAt: new Date('2031-05-02T02:00:00.000Z'), status: 'cancelled' },
+    ]).returning();
+
+    await db.insert(orderItems).values([
+      { orderId: placed[0].id, productId: cakeId, amount: 1, priceAtSale: 200000 },
+      { orderId: placed[1].id, productId: cookieId, amount: 5, priceAtSale: 10000 },
+      { orderId: placed[1].id, itemType: 'custom', customName: 'Topper', customPrice: 50000, priceAtSale: 50000 },
+      { orderId: placed[2].id, productId: cakeId, amount: 2, priceAtSale: 150000 },
+      { orderId: placed[3].id, productId: cakeId, amount: 10, priceAtSale: 150000 },
+    ]);
+  });
+
+  afterAll(async () => {
+    await closeConnection();
+  });
+
+  const range = 'from=2031-05-01&to=2031-05-31&timezone=Asia/Jakarta';
+
+  it('GET /api/reports/revenue should group revenue per local day', async () => {
+    const res = await api.get(`/api/reports/revenue?${range}&groupBy=day`).expect(200);
+
+    expect(res.body.success).toBe(true);
+    expect(res.body.data).toEqual([
+      // 200000 + (50000 + 50000 - 10000 + 5000)
+      { period: '2031-05-01', orderCount: 2, revenue: 295000 },
+      { period: '2031-05-02', orderCount: 1, revenue: 300000 },
+    ]);
+  });
+
+  it('GET /api/reports/revenue should group per month', async () => {
+    const res = await api.get(`/api/reports/revenue?${range}&groupBy=month`).expect(200);
+
+    expect(res.body.data).toEqual([{ period: '2031-05-01', orderCount: 3, revenue: 595000 }]);
+  });
+
+  it('GET /api/reports/top-products should rank by quantity or revenue using priceAtSale', async () => {
+    const byQuantity = await api.get(`/api/reports/top-products?${range}&sortBy=quantity`).expect(200);
+    expect(byQuantity.body.data.map((p: any) => p.name)).toEqual(['Report Cookie', 'Report Cake']);
+
+    const byRevenue = await api.get(`/api/reports/top-products?${range}&sortBy=revenue`).expect(200);
+    expect(byRevenue.body.data[0]).toEqual({
+      productId: cakeId,
+      name: 'Report Cake',
+      quantity: 3,
+      revenue: 500000,
+      orderCount: 2,
+    });
+  });
+
+  it('GET /api/reports/custom-items should report the custom revenue share', async () => {
+    const res = await api.get(`/api/reports/custom-items?${range}`).expect(200);
+
+    expect(res.body.data.customRevenue).toBe(50000);
+    expect(res.body.data.itemRevenue).toBe(600000);
+    expect(res.body.data.customItemCount).toBe(1);
+    expect(res.body.data.share).toBeCloseTo(50000 / 600000);
+  });
+
+  it('GET /api/reports/average-order-value should average order totals', async () => {
+    const res = await api.get(`/api/reports/average-order-value?${range}`).expect(200);
+
+    expect(res.body.data).toEqual({
+      orderCount: 3,
+      revenue: 595000,
+      averageOrderValue: Math.round(595000 / 3),
+    });
+  });
+
+  it('should validate the date range and time zone', async () => {
+    await api.get('/api/reports/revenue').expect(400);
+    await api.get('/api/reports/revenue?from=2031-05-31&to=2031-05-01').expect(400);
+    await api.get('/api/reports/revenue?from=2031-05-01&to=2031-05-31&timezone=Mars/Base').expect(400);
+  });
+});
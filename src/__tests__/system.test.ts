@@ -5,13 +5,47 @@ import app from '../index';
 
 describe('System (non-CRUD) Routes', () => {
   describe('CORS', () => {
-    it('should set Access-Control-Allow-Origin to *', async () => {
+    const originalOrigins = process.env.CORS_ORIGINS;
+
+    beforeEach(() => {
+      process.env.CORS_ORIGINS = 'https://example.com, https://admin.example.com';
+    });
+
+    afterAll(() => {
+      if (originalOrigins === undefined) {
+        delete process.env.CORS_ORIGINS;
+      } else {
+        process.env.CORS_ORIGINS = originalOrigins;
+      }
+    });
+
+    it('should echo an allowed origin', async () => {
       const res = await request(app)
         .get('/health')
         .set('Origin', 'https://example.com')
         .expect(200);
 
-      expect(res.headers['access-control-allow-origin']).toBe('*');
+      expect(res.headers['access-control-allow-origin']).toBe('https://example.com');
+    });
+
+    it('should not allow an origin missing from CORS_ORIGINS', async () => {
+      const res = await request(app)
+        .get('/health')
+        .set('Origin', 'https://evil.example.net')
+        .expect(200);
+
+      expect(res.headers['access-control-allow-origin']).toBeUndefined();
+    });
+
+    it('should not allow any origin when CORS_ORIGINS is unset', async () => {
+      delete process.env.CORS_ORIGINS;
+
+      const res = await request(app)
+        .get('/health')
+        .set('Origin', 'https://example.com')
+        .expect(200);
+
+      expect(res.headers['access-control-allow-origin']).toBeUndefined();
     });
 
     it('should respond to preflight OPTIONS with 204 and CORS headers', async () => {
@@ -22,7 +56,7 @@ describe('System (non-CRUD) Routes', () => {
         .set('Access-Control-Request-Headers', 'content-type,authorization')
         .expect(204);
 
-      expect(res.headers['access-control-allow-origin']).toBe('*');
+      expect(res.headers['access-control-allow-origin']).toBe('https://example.com');
       expect(res.headers['access-control-allow-methods']).toMatch(/GET/i);
       expect(res.headers['access-control-allow-headers']).toMatch(/content-type/i);
     });
@@ -35,6 +69,17 @@ describe('System (non-CRUD) Routes', () => {
       expect(res.body.db).toBe('ok');
       expect(res.body.minio).toBe('ok');
     });
+
+    it('should report printers without failing the health check', async () => {
+      process.env.PRINTER_DEVICE_PATH = '/nonexistent/printer';
+      try {
+        const res = await request(app).get('/health').expect(200);
+        expect(res.body.status).toBe('ok');
+        expect(['ok', 'degraded', 'error', 'none']).toContain(res.body.printers);
+      } finally {
+        delete process.env.PRINTER_DEVICE_PATH;
+      }
+    });
   });
 
   describe('Swagger documentation endpoints', () => {
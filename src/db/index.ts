@@ -17,6 +17,11 @@ const pool = new Pool({
 
 export const db = drizzle(pool, { schema });
 
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Either the shared connection or an open transaction
+export type DbClient = typeof db | Transaction;
+
 export async function checkDbConnection(timeoutMs: number = 2000): Promise<void> {
   const timeoutPromise = new Promise<never>((_, reject) => {
     const id = setTimeout(() => {
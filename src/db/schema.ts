@@ -1,6 +1,13 @@
-import { pgTable, serial, varchar, integer, timestamp, text, date } from 'drizzle-orm/pg-core';
+import { pgTable, serial, varchar, integer, timestamp, text, date, boolean, customType, index } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
+// Raw bytes (node Buffer), e.g. ESC/POS output
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return 'bytea';
+  },
+});
+
 export const products = pgTable('products', {
   id: serial('id').primaryKey(),
   name: varchar('name', { length: 255 }).notNull(),
@@ -10,11 +17,25 @@ export const products = pgTable('products', {
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+export const customers = pgTable('customers', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  phone: varchar('phone', { length: 32 }),
+  whatsapp: varchar('whatsapp', { length: 32 }),
+  address: text('address'),
+  notes: text('notes'), // e.g. allergies, preferences
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
 export const orders = pgTable('orders', {
   id: serial('id').primaryKey(),
-  customerName: varchar('customer_name', { length: 255 }).notNull(),
+  customerId: integer('customer_id').references(() => customers.id, { onDelete: 'set null' }),
+  customerName: varchar('customer_name', { length: 255 }).notNull(), // snapshot of the name at order time
   pickupDate: date('pickup_date'),
   notes: text('notes'),
+  discount: integer('discount').notNull().default(0), // Order-level discount in IDR
+  fee: integer('fee').notNull().default(0), // Order-level extra charge in IDR (e.g. delivery)
+  status: varchar('status', { length: 32 }).notNull().default('pending'),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -32,9 +53,133 @@ export const orderItems = pgTable('order_items', {
   customPrice: integer('custom_price'), // for custom items
 });
 
+export const orderStatusHistory = pgTable('order_status_history', {
+  id: serial('id').primaryKey(),
+  orderId: integer('order_id')
+    .notNull()
+    .references(() => orders.id, { onDelete: 'cascade' }),
+  fromStatus: varchar('from_status', { length: 32 }).notNull(),
+  toStatus: varchar('to_status', { length: 32 }).notNull(),
+  changedBy: varchar('changed_by', { length: 255 }),
+  notes: text('notes'),
+  changedAt: timestamp('changed_at').defaultNow(),
+});
+
+export const payments = pgTable('payments', {
+  id: serial('id').primaryKey(),
+  orderId: integer('order_id')
+    .notNull()
+    .references(() => orders.id, { onDelete: 'cascade' }),
+  amount: integer('amount').notNull(), // Amount in IDR
+  method: varchar('method', { length: 16 }).notNull(), // cash | transfer | qris
+  reference: varchar('reference', { length: 255 }), // transfer/QRIS reference number
+  receivedBy: varchar('received_by', { length: 255 }),
+  notes: text('notes'),
+  paidAt: timestamp('paid_at').defaultNow(),
+});
+
+export const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  username: varchar('username', { length: 64 }).notNull().unique(),
+  name: varchar('name', { length: 255 }).notNull(),
+  passwordHash: varchar('password_hash', { length: 255 }).notNull(),
+  role: varchar('role', { length: 32 }).notNull().default('cashier'), // owner | cashier | kitchen
+  active: boolean('active').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const sessions = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(), // sha256 of the bearer token
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const apiKeys = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(), // e.g. "Counter tablet"
+  keyHash: varchar('key_hash', { length: 64 }).notNull().unique(), // sha256 of the key
+  keyPrefix: varchar('key_prefix', { length: 16 }).notNull(), // first characters, to recognise a key
+  role: varchar('role', { length: 32 }).notNull().default('cashier'),
+  lastUsedAt: timestamp('last_used_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const printers = pgTable('printers', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 64 }).notNull().unique(), // e.g. "counter", "kitchen"
+  transport: varchar('transport', { length: 16 }).notNull(), // device | tcp
+  devicePath: varchar('device_path', { length: 255 }), // for device, e.g. /dev/usb/lp0
+  host: varchar('host', { length: 255 }), // for tcp
+  port: integer('port'), // for tcp, usually 9100
+  paperWidth: integer('paper_width').notNull().default(80), // in mm: 58 or 80
+  role: varchar('role', { length: 16 }).notNull().default('receipt'), // receipt | kitchen | label
+  codePage: varchar('code_page', { length: 16 }).notNull().default('cp437'), // cp437 | wpc1252
+  active: boolean('active').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const printJobs = pgTable(
+  'print_jobs',
+  {
+    id: serial('id').primaryKey(),
+    kind: varchar('kind', { length: 32 }).notNull(), // receipt | kitchen_ticket | pickup_label | prep_list
+    orderId: integer('order_id').references(() => orders.id, { onDelete: 'set null' }),
+    description: varchar('description', { length: 255 }).notNull(), // e.g. "Order #12"
+    printerId: integer('printer_id').references(() => printers.id, { onDelete: 'set null' }),
+    devicePath: varchar('device_path', { length: 255 }), // only for jobs without a registered printer
+    content: bytea('content').notNull(), // exact bytes sent to the printer
+    status: varchar('status', { length: 16 }).notNull().default('queued'), // queued | printing | done | failed | cancelled
+    attempts: integer('attempts').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull(),
+    lastError: text('last_error'),
+    nextAttemptAt: timestamp('next_attempt_at').notNull().defaultNow(),
+    reprintOf: integer('reprint_of'), // job whose bytes were reused
+    createdBy: varchar('created_by', { length: 255 }),
+    createdAt: timestamp('created_at').defaultNow(),
+    printedAt: timestamp('printed_at'),
+  },
+  (table) => [index('print_jobs_status_next_attempt_idx').on(table.status, table.nextAttemptAt)]
+);
+
+// Shop-wide settings changed through the API, e.g. the receipt logo
+export const settings = pgTable('settings', {
+  key: varchar('key', { length: 64 }).primaryKey(), // e.g. "receipt_logo"
+  value: text('value').notNull(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
 // Relations
-export const ordersRelations = relations(orders, ({ many }) => ({
+export const customersRelations = relations(customers, ({ many }) => ({
+  orders: many(orders),
+}));
+
+export const ordersRelations = relations(orders, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [orders.customerId],
+    references: [customers.id],
+  }),
   items: many(orderItems),
+  statusHistory: many(orderStatusHistory),
+  payments: many(payments),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  order: one(orders, {
+    fields: [payments.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.orderId],
+    references: [orders.id],
+  }),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
@@ -51,3 +196,14 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
 export const productsRelations = relations(products, ({ many }) => ({
   orderItems: many(orderItems),
 }));
+
+export const usersRelations = relations(users, ({ many }) => ({
+  sessions: many(sessions),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
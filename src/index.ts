@@ -1,12 +1,22 @@
 import express, { Express } from 'express';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './swagger';
+import authRoutes from './routes/auth';
 import productRoutes from './routes/products';
+import customerRoutes from './routes/customers';
 import orderRoutes from './routes/orders';
+import paymentRoutes from './routes/payments';
 import printerRoutes from './routes/printer';
+import printersRoutes from './routes/printers';
+import productionRoutes from './routes/production';
+import reportRoutes from './routes/reports';
 import imageRoutes from './routes/images';
 import { errorHandler } from './middleware/errorHandler';
+import { authenticate } from './middleware/auth';
 import { checkMinIOConnection, initializeMinIO } from './services/minio';
+import { startPrintQueue } from './services/printQueue';
+import { startImageCleanup } from './services/imageCleanup';
+import { getPrintersHealth, PrintersHealth } from './services/printers';
 import { getSwaggerSpecJSON, getSwaggerSpecJSONString } from './utils/swagger';
 import dotenv from 'dotenv';
 import { checkDbConnection } from './db';
@@ -20,13 +30,19 @@ const port = process.env.PORT || 3000;
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// CORS (allow all origins)
+// CORS: comma separated CORS_ORIGINS; no cross-origin access when unset
 app.use((req, res, next) => {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
+  const corsOrigins = process.env.CORS_ORIGINS?.split(',').map((origin) => origin.trim()).filter(Boolean) ?? [];
+  const origin = req.header('Origin');
+  res.setHeader('Vary', 'Origin');
 
-  const requestedHeaders = req.header('Access-Control-Request-Headers');
-  res.setHeader('Access-Control-Allow-Headers', requestedHeaders ?? 'Content-Type, Authorization');
+  if (origin && corsOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
+
+    const requestedHeaders = req.header('Access-Control-Request-Headers');
+    res.setHeader('Access-Control-Allow-Headers', requestedHeaders ?? 'Content-Type, Authorization, X-API-Key');
+  }
 
   if (req.method === 'OPTIONS') {
     return res.sendStatus(204);
@@ -45,6 +61,7 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
  *   get:
  *     summary: Get OpenAPI spec (object)
  *     tags: [System]
+ *     security: []
  *     responses:
  *       200:
  *         description: OpenAPI specification (JSON)
@@ -60,6 +77,7 @@ app.get('/api-docs.json', (req, res) => {
  *   get:
  *     summary: Get OpenAPI spec (stringified)
  *     tags: [System]
+ *     security: []
  *     responses:
  *       200:
  *         description: OpenAPI specification (JSON)
@@ -69,10 +87,19 @@ app.get('/swagger.json', (req, res) => {
   res.send(getSwaggerSpecJSONString());
 });
 
+// Everything under /api requires a session token or API key (see middleware/auth.ts)
+app.use('/api', authenticate);
+
 // Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/products', productRoutes);
+app.use('/api/customers', customerRoutes);
 app.use('/api/orders', orderRoutes);
+app.use('/api/orders/:orderId/payments', paymentRoutes);
+app.use('/api/printer/printers', printersRoutes);
 app.use('/api/printer', printerRoutes);
+app.use('/api/production', productionRoutes);
+app.use('/api/reports', reportRoutes);
 app.use('/api/images', imageRoutes);
 
 // Health check
@@ -82,6 +109,7 @@ app.use('/api/images', imageRoutes);
  *   get:
  *     summary: Health check
  *     tags: [System]
+ *     security: []
  *     responses:
  *       200:
  *         description: Service is healthy
@@ -99,10 +127,18 @@ app.use('/api/images', imageRoutes);
  *                 minio:
  *                   type: string
  *                   example: ok
+ *                 printers:
+ *                   type: string
+ *                   enum: [ok, degraded, error, none, unknown]
+ *                   description: |
+ *                     Not part of the overall status, the API works without a printer. Checked at most
+ *                     once per PRINTER_HEALTH_TTL_MS (a minute); GET /api/printer/status asks them live.
+ *                   example: ok
  */
 app.get('/health', async (req, res) => {
   let dbOk = true;
   let minioOk = true;
+  let printers: PrintersHealth | 'unknown' = 'unknown';
 
   try {
     await checkDbConnection();
@@ -116,11 +152,20 @@ app.get('/health', async (req, res) => {
     minioOk = false;
   }
 
+  if (dbOk) {
+    try {
+      printers = await getPrintersHealth();
+    } catch {
+      printers = 'unknown';
+    }
+  }
+
   const ok = dbOk && minioOk;
   res.status(ok ? 200 : 503).json({
     status: ok ? 'ok' : 'error',
     db: dbOk ? 'ok' : 'error',
     minio: minioOk ? 'ok' : 'error',
+    printers,
   });
 });
 
@@ -144,6 +189,8 @@ if (require.main === module) {
       await checkDbConnection(5000);
       await checkMinIOConnection(5000);
       await initializeMinIO();
+      await startPrintQueue();
+      startImageCleanup();
 
       app.listen(port, () => {
         console.log(`Server running on http://localhost:${port}`);
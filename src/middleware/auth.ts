@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken, AuthContext } from '../services/auth';
+import { hasPermission, Permission } from '../services/permissions';
+
+// Routes under /api that can be called without credentials (paths relative to /api)
+const PUBLIC_ROUTES: { method: string; pattern: RegExp }[] = [
+  { method: 'POST', pattern: /^\/auth\/login\/?$/ },
+  // Product photos are loaded by <img> tags, which can't send an Authorization header
+  { method: 'GET', pattern: /^\/images\/[^/]+\/?$/ },
+];
+
+function isPublicRoute(req: Request): boolean {
+  const method = req.method === 'HEAD' ? 'GET' : req.method;
+  return PUBLIC_ROUTES.some((route) => route.method === method && route.pattern.test(req.path));
+}
+
+function extractToken(req: Request): string | undefined {
+  const header = req.header('Authorization');
+  if (header) {
+    const [scheme, value] = header.split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && value) {
+      return value.trim();
+    }
+  }
+
+  return req.header('X-API-Key')?.trim() || undefined;
+}
+
+/**
+ * Require a staff session token or API key for every /api route except PUBLIC_ROUTES.
+ * Sets req.auth to the authenticated caller.
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  if (isPublicRoute(req)) {
+    return next();
+  }
+
+  try {
+    const token = extractToken(req);
+
+    if (!token) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const auth = await authenticateToken(token);
+
+    if (!auth) {
+      res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired credentials',
+      });
+    }
+
+    req.auth = auth;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Allow the request only if the caller's role has at least one of the given permissions.
+ * Must run after `authenticate`.
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const role = req.auth.role;
+    if (!permissions.some((permission) => hasPermission(role, permission))) {
+      return res.status(403).json({
+        success: false,
+        message: `Role '${role}' is not allowed to perform this action`,
+      });
+    }
+
+    next();
+  };
+};
+
+// Extend Express Request to include the authenticated caller
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
@@ -1,6 +1,12 @@
 import multer, { StorageEngine } from 'multer';
-import { Request } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { ValidationError } from './validation';
+import {
+  detectImageType,
+  getImageTypeFromMime,
+  sanitizeImage,
+  IMAGE_MIME_TYPES,
+} from '../services/imageContent';
 
 // Memory storage for handling file uploads
 const storage: StorageEngine = multer.memoryStorage();
@@ -11,7 +17,7 @@ const fileFilter = (
   file: Express.Multer.File,
   cb: multer.FileFilterCallback
 ) => {
-  const allowedMimes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+  const allowedMimes: string[] = Object.values(IMAGE_MIME_TYPES);
 
   if (allowedMimes.includes(file.mimetype)) {
     cb(null, true);
@@ -28,6 +34,35 @@ export const uploadMiddleware = multer({
   },
 });
 
+/**
+ * Goes after uploadMiddleware. The file filter only sees the type the client claims,
+ * so the content is checked here and swapped for a sanitised copy (upright, no EXIF).
+ */
+export async function sanitizeImageUpload(req: Request, res: Response, next: NextFunction) {
+  if (!req.file) {
+    return next();
+  }
+
+  const type = detectImageType(req.file.buffer);
+
+  if (!type) {
+    return next(new ValidationError(400, { image: 'Only image files are allowed' }));
+  }
+
+  if (type !== getImageTypeFromMime(req.file.mimetype)) {
+    return next(new ValidationError(400, { image: `File is a ${type} image, not ${req.file.mimetype}` }));
+  }
+
+  try {
+    req.file.buffer = await sanitizeImage(req.file.buffer, type);
+    req.file.size = req.file.buffer.length;
+  } catch {
+    return next(new ValidationError(400, { image: 'Could not read the image' }));
+  }
+
+  next();
+}
+
 // Extend Express Request to include file
 declare global {
   namespace Express {
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { ZodSchema } from 'zod';
+import { z, ZodSchema } from 'zod';
 
 export class ValidationError extends Error {
   constructor(public statusCode: number, public errors: any) {
@@ -19,3 +19,15 @@ export const validateRequest = (schema: ZodSchema) => {
     }
   };
 };
+
+// Express 5 exposes req.query as a read-only getter, so query strings are parsed
+// inside the handler instead of being replaced by a middleware.
+export const parseQuery = <T extends ZodSchema>(schema: T, query: unknown): z.output<T> => {
+  const result = schema.safeParse(query);
+
+  if (!result.success) {
+    throw new ValidationError(400, result.error.issues);
+  }
+
+  return result.data;
+};
@@ -0,0 +1,634 @@
+import { Router, Request, Response, NextFunction, Router as ExpressRouter } from 'express';
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { apiKeys, sessions, users } from '../db/schema';
+import { validateRequest, ValidationError } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
+import {
+  loginSchema,
+  createUserSchema,
+  updateUserSchema,
+  createApiKeySchema,
+  LoginInput,
+  CreateUserInput,
+  UpdateUserInput,
+  CreateApiKeyInput,
+} from '../validators';
+import { createApiKey, createUser, deleteSession, hashPassword, login } from '../services/auth';
+
+const router: ExpressRouter = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     User:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         username:
+ *           type: string
+ *         name:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [owner, cashier, kitchen]
+ *         active:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         keyPrefix:
+ *           type: string
+ *           description: First characters of the key, to tell keys apart
+ *         role:
+ *           type: string
+ *           enum: [owner, cashier, kitchen]
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ * /api/auth/login:
+ *   post:
+ *     summary: Log in as a staff user
+ *     description: "Returns a session token to send as `Authorization: Bearer <token>`."
+ *     tags: [Auth]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [username, password]
+ *             properties:
+ *               username:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Logged in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     user:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: integer
+ *                         username:
+ *                           type: string
+ *                         name:
+ *                           type: string
+ *                         role:
+ *                           type: string
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Invalid username or password
+ */
+router.post(
+  '/login',
+  validateRequest(loginSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { username, password }: LoginInput = req.body;
+
+      const session = await login(username, password);
+
+      if (!session) {
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid username or password',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: End the current session
+ *     description: Invalidates the session token used for this request. API keys are not affected.
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: Logged out
+ *       401:
+ *         description: Authentication required
+ */
+router.post('/logout', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (req.auth?.type === 'user') {
+      await deleteSession(req.auth.sessionId);
+    }
+
+    res.json({
+      success: true,
+      message: 'Logged out',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     summary: Get the authenticated caller
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: The user or API key used for this request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum: [user, apiKey]
+ *                     name:
+ *                       type: string
+ *                     role:
+ *                       type: string
+ *                       enum: [owner, cashier, kitchen]
+ *                     userId:
+ *                       type: integer
+ *                     apiKeyId:
+ *                       type: integer
+ *       401:
+ *         description: Authentication required
+ */
+router.get('/me', (req: Request, res: Response) => {
+  const auth = req.auth!;
+
+  res.json({
+    success: true,
+    // The session id is internal; the token itself identifies the session
+    data:
+      auth.type === 'user'
+        ? { type: auth.type, userId: auth.userId, name: auth.name, role: auth.role }
+        : auth,
+  });
+});
+
+/**
+ * @swagger
+ * /api/auth/users:
+ *   get:
+ *     summary: Get all staff users
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: List of users
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/User'
+ */
+router.get('/users', requirePermission('users:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const allUsers = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        name: users.name,
+        role: users.role,
+        active: users.active,
+        createdAt: users.createdAt,
+      })
+      .from(users)
+      .orderBy(asc(users.username));
+
+    res.json({
+      success: true,
+      data: allUsers,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/users:
+ *   post:
+ *     summary: Create a staff user
+ *     description: Owner only.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [username, name, password]
+ *             properties:
+ *               username:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *               role:
+ *                 type: string
+ *                 enum: [owner, cashier, kitchen]
+ *                 default: cashier
+ *     responses:
+ *       201:
+ *         description: User created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Not allowed for this role
+ *       409:
+ *         description: Username already taken
+ */
+router.post(
+  '/users',
+  requirePermission('users:manage'),
+  validateRequest(createUserSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const data: CreateUserInput = req.body;
+
+      const existing = await db.query.users.findFirst({
+        where: eq(users.username, data.username),
+      });
+
+      if (existing) {
+        return res.status(409).json({
+          success: false,
+          message: 'Username already taken',
+        });
+      }
+
+      const user = await createUser(data);
+
+      res.status(201).json({
+        success: true,
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/users/{id}:
+ *   put:
+ *     summary: Update a staff user
+ *     description: Deactivating a user or changing their password ends their sessions. Owner only.
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: User ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *               role:
+ *                 type: string
+ *                 enum: [owner, cashier, kitchen]
+ *               active:
+ *                 type: boolean
+ *           example:
+ *             role: kitchen
+ *     responses:
+ *       200:
+ *         description: User updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Not allowed for this role
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: Owners cannot demote or deactivate themselves
+ */
+router.put(
+  '/users/:id',
+  requirePermission('users:manage'),
+  validateRequest(updateUserSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      if (isNaN(id)) {
+        throw new ValidationError(400, { id: 'Invalid user ID' });
+      }
+
+      const { password, ...data }: UpdateUserInput = req.body;
+
+      // Keep at least the current owner able to manage accounts
+      if (
+        req.auth?.type === 'user' &&
+        req.auth.userId === id &&
+        ((data.role && data.role !== 'owner') || data.active === false)
+      ) {
+        return res.status(409).json({
+          success: false,
+          message: 'You cannot remove your own owner access',
+        });
+      }
+
+      const result = await db
+        .update(users)
+        .set({
+          ...data,
+          ...(password ? { passwordHash: await hashPassword(password) } : {}),
+        })
+        .where(eq(users.id, id))
+        .returning({
+          id: users.id,
+          username: users.username,
+          name: users.name,
+          role: users.role,
+          active: users.active,
+          createdAt: users.createdAt,
+        });
+
+      if (result.length === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+      }
+
+      if (password || data.active === false) {
+        await db.delete(sessions).where(eq(sessions.userId, id));
+      }
+
+      res.json({
+        success: true,
+        data: result[0],
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/api-keys:
+ *   get:
+ *     summary: Get all API keys
+ *     description: Keys themselves are never returned, only their prefix.
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: List of API keys
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ */
+router.get('/api-keys', requirePermission('users:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const allKeys = await db
+      .select({
+        id: apiKeys.id,
+        name: apiKeys.name,
+        keyPrefix: apiKeys.keyPrefix,
+        role: apiKeys.role,
+        lastUsedAt: apiKeys.lastUsedAt,
+        revokedAt: apiKeys.revokedAt,
+        createdAt: apiKeys.createdAt,
+      })
+      .from(apiKeys)
+      .orderBy(asc(apiKeys.id));
+
+    res.json({
+      success: true,
+      data: allKeys,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/api-keys:
+ *   post:
+ *     summary: Create an API key for a device or integration
+ *     description: The key is only returned in this response; store it right away.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [owner, cashier, kitchen]
+ *                 default: cashier
+ *           example:
+ *             name: "Counter tablet"
+ *             role: cashier
+ *     responses:
+ *       201:
+ *         description: API key created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                     name:
+ *                       type: string
+ *                     keyPrefix:
+ *                       type: string
+ *                     role:
+ *                       type: string
+ *                     key:
+ *                       type: string
+ *                     createdAt:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Validation error
+ */
+router.post(
+  '/api-keys',
+  requirePermission('users:manage'),
+  validateRequest(createApiKeySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, role }: CreateApiKeyInput = req.body;
+
+      const apiKey = await createApiKey(name, role);
+
+      res.status(201).json({
+        success: true,
+        data: apiKey,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       404:
+ *         description: API key not found
+ */
+router.delete('/api-keys/:id', requirePermission('users:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      throw new ValidationError(400, { id: 'Invalid API key ID' });
+    }
+
+    const result = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(eq(apiKeys.id, id))
+      .returning({ id: apiKeys.id });
+
+    if (result.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'API key not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'API key revoked',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
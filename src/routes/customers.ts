@@ -0,0 +1,470 @@
+import { Router, Request, Response, NextFunction, Router as ExpressRouter } from 'express';
+import { db } from '../db';
+import { customers, orders } from '../db/schema';
+import { asc, desc, eq, ilike, or } from 'drizzle-orm';
+import { parseQuery, validateRequest, ValidationError } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
+import {
+  createCustomerSchema,
+  updateCustomerSchema,
+  listCustomersQuerySchema,
+  CustomerInput,
+  UpdateCustomerInput,
+} from '../validators';
+import { cleanOrder } from '../utils/orders';
+import { escapeLike } from '../services/orderFilters';
+
+const router: ExpressRouter = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CustomerInput:
+ *       type: object
+ *       required: [name]
+ *       properties:
+ *         name:
+ *           type: string
+ *         phone:
+ *           type: string
+ *         whatsapp:
+ *           type: string
+ *         address:
+ *           type: string
+ *         notes:
+ *           type: string
+ *           description: Allergies, preferences, etc.
+ *     Customer:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         phone:
+ *           type: string
+ *           nullable: true
+ *         whatsapp:
+ *           type: string
+ *           nullable: true
+ *         address:
+ *           type: string
+ *           nullable: true
+ *         notes:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ * /api/customers:
+ *   get:
+ *     summary: Get all customers
+ *     tags: [Customers]
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Case-insensitive substring of name, phone or WhatsApp number
+ *     responses:
+ *       200:
+ *         description: List of customers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Customer'
+ *             example:
+ *               success: true
+ *               data:
+ *                 - id: 1
+ *                   name: "Ibu Ani"
+ *                   phone: "081234567890"
+ *                   whatsapp: "081234567890"
+ *                   address: null
+ *                   notes: "Alergi kacang"
+ *                   createdAt: "2026-01-04T00:00:00.000Z"
+ */
+router.get('/', requirePermission('customers:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { search } = parseQuery(listCustomersQuerySchema, req.query);
+    const pattern = search ? `%${escapeLike(search)}%` : undefined;
+
+    const allCustomers = await db.query.customers.findMany({
+      where: pattern
+        ? or(
+          ilike(customers.name, pattern),
+          ilike(customers.phone, pattern),
+          ilike(customers.whatsapp, pattern)
+        )
+        : undefined,
+      orderBy: [asc(customers.name), asc(customers.id)],
+    });
+
+    res.json({
+      success: true,
+      data: allCustomers,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/customers/{id}:
+ *   get:
+ *     summary: Get a customer by ID
+ *     tags: [Customers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Customer ID
+ *     responses:
+ *       200:
+ *         description: Customer details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Customer'
+ *       404:
+ *         description: Customer not found
+ */
+router.get('/:id', requirePermission('customers:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      throw new ValidationError(400, { id: 'Invalid customer ID' });
+    }
+
+    const customer = await db.query.customers.findFirst({
+      where: eq(customers.id, id),
+    });
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: customer,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/customers/{id}/orders:
+ *   get:
+ *     summary: Get a customer's order history (newest first)
+ *     tags: [Customers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Customer ID
+ *     responses:
+ *       200:
+ *         description: Customer with their orders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     customer:
+ *                       $ref: '#/components/schemas/Customer'
+ *                     orders:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *       404:
+ *         description: Customer not found
+ */
+router.get('/:id/orders', requirePermission('customers:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      throw new ValidationError(400, { id: 'Invalid customer ID' });
+    }
+
+    const customer = await db.query.customers.findFirst({
+      where: eq(customers.id, id),
+    });
+
+    if (!customer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found',
+      });
+    }
+
+    const customerOrders = await db.query.orders.findMany({
+      where: eq(orders.customerId, id),
+      orderBy: [desc(orders.createdAt), desc(orders.id)],
+      with: {
+        items: {
+          with: {
+            product: true,
+          },
+        },
+        payments: true,
+      },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        customer,
+        orders: customerOrders.map(cleanOrder),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/customers:
+ *   post:
+ *     summary: Create a new customer
+ *     tags: [Customers]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CustomerInput'
+ *           example:
+ *             name: "Ibu Ani"
+ *             phone: "081234567890"
+ *             notes: "Alergi kacang"
+ *     responses:
+ *       201:
+ *         description: Customer created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Customer'
+ *       400:
+ *         description: Validation error
+ */
+router.post(
+  '/',
+  requirePermission('customers:write'),
+  validateRequest(createCustomerSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const data: CustomerInput = req.body;
+
+      const result = await db
+        .insert(customers)
+        .values(data)
+        .returning();
+
+      res.status(201).json({
+        success: true,
+        data: result[0],
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/customers/{id}:
+ *   put:
+ *     summary: Update a customer
+ *     description: Existing orders keep the customer name they were taken with.
+ *     tags: [Customers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Customer ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *                 nullable: true
+ *               whatsapp:
+ *                 type: string
+ *                 nullable: true
+ *               address:
+ *                 type: string
+ *                 nullable: true
+ *               notes:
+ *                 type: string
+ *                 nullable: true
+ *           example:
+ *             whatsapp: "081234567890"
+ *     responses:
+ *       200:
+ *         description: Customer updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Customer'
+ *       404:
+ *         description: Customer not found
+ *       400:
+ *         description: Validation error
+ */
+router.put(
+  '/:id',
+  requirePermission('customers:write'),
+  validateRequest(updateCustomerSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      if (isNaN(id)) {
+        throw new ValidationError(400, { id: 'Invalid customer ID' });
+      }
+
+      const data: UpdateCustomerInput = req.body;
+
+      if (Object.keys(data).length === 0) {
+        throw new ValidationError(400, { body: 'No fields to update' });
+      }
+
+      const result = await db
+        .update(customers)
+        .set(data)
+        .where(eq(customers.id, id))
+        .returning();
+
+      if (result.length === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Customer not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result[0],
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/customers/{id}:
+ *   delete:
+ *     summary: Delete a customer
+ *     description: Their orders are kept and simply unlinked from the customer.
+ *     tags: [Customers]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Customer ID
+ *     responses:
+ *       200:
+ *         description: Customer deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, message]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: Customer not found
+ */
+router.delete('/:id', requirePermission('customers:delete'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+
+    if (isNaN(id)) {
+      throw new ValidationError(400, { id: 'Invalid customer ID' });
+    }
+
+    const result = await db
+      .delete(customers)
+      .where(eq(customers.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Customer not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Customer deleted successfully',
+      data: result[0],
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
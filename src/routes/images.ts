@@ -1,5 +1,12 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import minioClient from '../services/minio';
+import minioClient, { deleteImage, getImageUrl, imageExists, listImages, uploadImage } from '../services/minio';
+import { getVariantObjectName } from '../services/imageVariants';
+import { getImageUsage } from '../services/images';
+import { cleanupOrphanedImages } from '../services/imageCleanup';
+import { parseQuery, ValidationError } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
+import { sanitizeImageUpload, uploadMiddleware } from '../middleware/upload';
+import { imageCleanupQuerySchema, imageQuerySchema } from '../validators';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -7,19 +14,360 @@ dotenv.config();
 const router: Router = Router();
 const bucketName = process.env.MINIO_BUCKET_NAME || 'images';
 
+// Image IDs name their content, so an image never changes
+const CACHE_CONTROL = 'public, max-age=31536000';
+
+/**
+ * The byte range a request asks for: null for the whole image (no Range, one we
+ * don't serve such as several ranges, or an If-Range for another version), or
+ * 'unsatisfiable' when it lies outside the image.
+ */
+function getByteRange(
+  req: Request,
+  size: number,
+  etag: string,
+  lastModified: Date
+): { start: number; end: number } | null | 'unsatisfiable' {
+  if (!req.get('Range')) {
+    return null;
+  }
+
+  const ifRange = req.get('If-Range');
+  if (ifRange) {
+    const sameVersion = ifRange.includes('"')
+      ? ifRange === etag
+      : Date.parse(ifRange) >= Math.floor(lastModified.getTime() / 1000) * 1000;
+
+    if (!sameVersion) {
+      return null;
+    }
+  }
+
+  const ranges = req.range(size, { combine: true });
+
+  if (ranges === -1) {
+    return 'unsatisfiable';
+  }
+
+  if (ranges === undefined || ranges === -2 || ranges.type !== 'bytes' || ranges.length !== 1) {
+    return null;
+  }
+
+  return ranges[0];
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Image:
+ *       type: object
+ *       required: [imageId, url]
+ *       properties:
+ *         imageId:
+ *           type: string
+ *         url:
+ *           type: string
+ *         size:
+ *           type: integer
+ *           description: Bytes, of the original upload
+ *         lastModified:
+ *           type: string
+ *           format: date-time
+ * /api/images:
+ *   get:
+ *     summary: List uploaded images, newest first
+ *     tags: [Images]
+ *     responses:
+ *       200:
+ *         description: Images in the bucket (variants are not listed)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Image'
+ *   post:
+ *     summary: Upload an image
+ *     description: |
+ *       Returns the imageId to give to a product. The file must really be the image type it is
+ *       sent as; it is stored upright and without EXIF metadata, named after its content, so
+ *       uploading the same image twice gives the same imageId. Thumbnail, medium and WebP
+ *       variants are made on upload.
+ *     tags: [Images]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [image]
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: PNG, JPEG, GIF or WebP, max 5MB
+ *     responses:
+ *       201:
+ *         description: Image uploaded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Image'
+ *       400:
+ *         description: Missing file, not an image, or content that doesn't match the file type
+ */
+router.get('/', requirePermission('products:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const images = await listImages();
+
+    res.json({
+      success: true,
+      data: images.map((image) => ({ ...image, url: getImageUrl(image.imageId) })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post(
+  '/',
+  requirePermission('products:write'),
+  uploadMiddleware.single('image'),
+  sanitizeImageUpload,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        throw new ValidationError(400, { image: 'Image file is required' });
+      }
+
+      const imageId = await uploadImage(req.file.buffer, req.file.mimetype);
+
+      res.status(201).json({
+        success: true,
+        data: { imageId, url: getImageUrl(imageId), size: req.file.size },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/images/cleanup:
+ *   post:
+ *     summary: Delete images nothing uses
+ *     description: |
+ *       Deletes images (with their variants) that no product uses and that aren't the receipt
+ *       logo, once they are older than the grace period. Also runs every
+ *       IMAGE_CLEANUP_INTERVAL_HOURS. With dryRun=true nothing is deleted.
+ *     tags: [Images]
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         required: false
+ *         description: Only report what would be deleted
+ *       - in: query
+ *         name: graceHours
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         required: false
+ *         description: Keep images modified more recently than this; defaults to IMAGE_CLEANUP_GRACE_HOURS (24)
+ *     responses:
+ *       200:
+ *         description: What was (or would be) deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   required: [dryRun, graceHours, scanned, orphans, deleted, failed]
+ *                   properties:
+ *                     dryRun:
+ *                       type: boolean
+ *                     graceHours:
+ *                       type: integer
+ *                     scanned:
+ *                       type: integer
+ *                       description: Images in the bucket
+ *                     orphans:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Image'
+ *                     deleted:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     failed:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           imageId:
+ *                             type: string
+ *                           error:
+ *                             type: string
+ *       400:
+ *         description: Invalid dryRun or graceHours
+ */
+router.post('/cleanup', requirePermission('images:cleanup'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { dryRun, graceHours } = parseQuery(imageCleanupQuerySchema, req.query);
+    const report = await cleanupOrphanedImages({ dryRun, graceHours });
+
+    res.json({
+      success: true,
+      data: {
+        ...report,
+        orphans: report.orphans.map((image) => ({ ...image, url: getImageUrl(image.imageId) })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/images/{filename}:
+ *   delete:
+ *     summary: Delete an image and its variants
+ *     description: Images used by a product or as the receipt logo can't be deleted.
+ *     tags: [Images]
+ *     parameters:
+ *       - in: path
+ *         name: filename
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Image deleted
+ *       404:
+ *         description: Image not found
+ *       409:
+ *         description: Image is still in use
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, message]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 productIds:
+ *                   type: array
+ *                   items:
+ *                     type: integer
+ *                 receiptLogo:
+ *                   type: boolean
+ */
+router.delete('/:filename', requirePermission('products:write'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { filename } = req.params;
+
+    if (!(await imageExists(filename))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Image not found',
+      });
+    }
+
+    const usage = await getImageUsage(filename);
+
+    if (usage.productIds.length > 0 || usage.receiptLogo) {
+      return res.status(409).json({
+        success: false,
+        message: 'Image is still in use',
+        ...usage,
+      });
+    }
+
+    await deleteImage(filename);
+
+    res.json({
+      success: true,
+      message: 'Image deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * @swagger
  * /api/images/{filename}:
  *   get:
  *     summary: Get an image by filename
+ *     description: |
+ *       Public, so product photos can be used directly in <img> tags. Pick a smaller copy with
+ *       variant (or the width it will be shown at) and format=webp. Images uploaded before
+ *       variants existed are served at full size in their own format.
+ *
+ *       Responses carry an ETag and Last-Modified; If-None-Match or If-Modified-Since get a 304
+ *       when the image hasn't changed. A single byte Range (with an optional If-Range) gets a 206.
  *     tags: [Images]
+ *     security: []
  *     parameters:
  *       - in: path
  *         name: filename
  *         schema:
  *           type: string
  *         required: true
- *         description: Image filename (e.g., 1767687756522-H037.jpeg)
+ *         description: Image filename (e.g., 3a7bd3e2360a3d29eea436fcfb7e44c735d117c42d1c1835420b6b9942dd4f1b.jpeg)
+ *       - in: query
+ *         name: variant
+ *         schema:
+ *           type: string
+ *           enum: [thumbnail, medium, original]
+ *           default: original
+ *         required: false
+ *         description: thumbnail is at most 256 pixels wide, medium at most 1024
+ *       - in: query
+ *         name: width
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 4096
+ *         required: false
+ *         description: Display width in pixels; picks the smallest variant at least this wide. Not together with variant.
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [original, webp]
+ *           default: original
+ *         required: false
+ *       - in: header
+ *         name: Range
+ *         schema:
+ *           type: string
+ *           example: bytes=0-1023
+ *         required: false
  *     responses:
  *       200:
  *         description: Image file
@@ -40,6 +388,12 @@ const bucketName = process.env.MINIO_BUCKET_NAME || 'images';
  *             schema:
  *               type: string
  *               format: binary
+ *       206:
+ *         description: The requested byte range, described by Content-Range
+ *       304:
+ *         description: Not modified since the ETag or date the client has
+ *       400:
+ *         description: Invalid variant, width or format
  *       404:
  *         description: Image not found
  *         content:
@@ -53,6 +407,8 @@ const bucketName = process.env.MINIO_BUCKET_NAME || 'images';
  *                 message:
  *                   type: string
  *                   example: Image not found
+ *       416:
+ *         description: Range outside the image
  *       500:
  *         description: Server error
  *         content:
@@ -69,17 +425,60 @@ const bucketName = process.env.MINIO_BUCKET_NAME || 'images';
 router.get('/:filename', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { filename } = req.params;
+    const { variant, format } = parseQuery(imageQuerySchema, req.query);
+    let objectName = getVariantObjectName(filename, variant, format);
 
-    // Get the image from MinIO
-    const dataStream = await minioClient.getObject(bucketName, filename);
+    // Metadata first, so a missing image is a 404 without opening a stream
+    let stat;
+    try {
+      stat = await minioClient.statObject(bucketName, objectName);
+    } catch (error: any) {
+      // No variants for this image: serve the original instead
+      if (objectName === filename || (error.code !== 'NoSuchKey' && error.code !== 'NotFound')) {
+        throw error;
+      }
+      objectName = filename;
+      stat = await minioClient.statObject(bucketName, objectName);
+    }
 
-    // Get object metadata to set correct content type
-    const stat = await minioClient.statObject(bucketName, filename);
+    res.setHeader('ETag', `"${stat.etag}"`);
+    res.setHeader('Last-Modified', stat.lastModified.toUTCString());
+
+    // If-None-Match / If-Modified-Since against the headers above
+    if (req.fresh) {
+      res.setHeader('Cache-Control', CACHE_CONTROL);
+      return res.status(304).end();
+    }
+
+    const range = getByteRange(req, stat.size, `"${stat.etag}"`, stat.lastModified);
+
+    if (range === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${stat.size}`);
+      return res.status(416).json({
+        success: false,
+        message: 'Range not satisfiable',
+      });
+    }
 
-    // Set appropriate headers
     res.setHeader('Content-Type', stat.metaData['content-type'] || 'image/jpeg');
-    res.setHeader('Content-Length', stat.size);
-    res.setHeader('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
+    res.setHeader('Cache-Control', CACHE_CONTROL);
+    res.setHeader('Accept-Ranges', 'bytes');
+
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stat.size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', stat.size);
+    }
+
+    if (req.method === 'HEAD') {
+      return res.end();
+    }
+
+    const dataStream = range
+      ? await minioClient.getPartialObject(bucketName, objectName, range.start, range.end - range.start + 1)
+      : await minioClient.getObject(bucketName, objectName);
 
     // Pipe the stream to response
     dataStream.pipe(res);
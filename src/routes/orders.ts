@@ -1,64 +1,218 @@
-// Utility to remove null fields from order items for correct API shape
-function cleanOrderItem(item: any) {
-  const cleaned: any = { ...item };
-  // Remove fields that are null (but keep 0 and false)
-  Object.keys(cleaned).forEach((key) => {
-    if (cleaned[key] === null) {
-      delete cleaned[key];
-    }
+import { Router, Request, Response, NextFunction, Router as ExpressRouter } from 'express';
+import { db, DbClient } from '../db';
+import { orders, orderItems, products, orderStatusHistory } from '../db/schema';
+import { asc, count, eq, inArray } from 'drizzle-orm';
+import { parseQuery, validateRequest, ValidationError } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
+import {
+  createOrderSchema,
+  updateOrderSchema,
+  orderStatusTransitionSchema,
+  listOrdersQuerySchema,
+  scanOrderQuerySchema,
+  CreateOrderInput,
+  UpdateOrderInput,
+  OrderStatusTransitionInput,
+} from '../validators';
+import { summarizePayments } from '../services/payments';
+import { canSetOrderStatus, hasPermission } from '../services/permissions';
+import { computeOrderTotals } from '../services/pricing';
+import { buildOrderFilters, buildOrderSort } from '../services/orderFilters';
+import { cleanOrder } from '../utils/orders';
+import { parseOrderCode } from '../services/orderCodes';
+import { resolveOrderCustomer } from '../services/customers';
+import { triggerAutoPrint } from '../services/orderPrinting';
+import { canTransition, getAllowedTransitions, isOrderStatus, parseStatusFilter, ORDER_STATUSES } from '../services/orderStatus';
+
+const router: ExpressRouter = Router();
+
+// Everything GET /api/orders/:id returns
+function findOrderDetails(id: number) {
+  return db.query.orders.findFirst({
+    where: eq(orders.id, id),
+    with: {
+      items: {
+        with: {
+          product: true,
+        },
+      },
+      payments: true,
+      customer: true,
+      statusHistory: {
+        orderBy: [asc(orderStatusHistory.changedAt), asc(orderStatusHistory.id)],
+      },
+    },
   });
-  // For custom items, ensure customPrice is always a number (default 0 if missing)
-  if (cleaned.itemType === 'custom') {
-    if (typeof cleaned.customPrice !== 'number') {
-      cleaned.customPrice = 0;
-    }
-  }
-  // Recursively clean product if present
-  if (cleaned.product && typeof cleaned.product === 'object') {
-    Object.keys(cleaned.product).forEach((key) => {
-      if (cleaned.product[key] === null) {
-        delete cleaned.product[key];
-      }
-    });
-  }
-  return cleaned;
 }
 
-function cleanOrder(order: any) {
-  if (!order) return order;
-  return {
-    ...order,
-    items: Array.isArray(order.items)
-      ? order.items.map(cleanOrderItem)
-      : [],
-  };
+type OrderItemInput = CreateOrderInput['items'][number];
+
+function canSetItemPrices(req: Request): boolean {
+  return req.auth !== undefined && hasPermission(req.auth.role, 'orders:price');
 }
-import { Router, Request, Response, NextFunction, Router as ExpressRouter } from 'express';
-import { db } from '../db';
-import { orders, orderItems, products } from '../db/schema';
-import { eq } from 'drizzle-orm';
-import { validateRequest, ValidationError } from '../middleware/validation';
-import { createOrderSchema, updateOrderSchema, CreateOrderInput, UpdateOrderInput } from '../validators';
 
-const router: ExpressRouter = Router();
+/**
+ * Turn validated item input into order_items rows (without orderId). Product prices are
+ * looked up in one query; unknown products are rejected with a 400 listing every
+ * offending item so nothing gets written. A client's priceAtSale is only used when
+ * `allowPriceOverride` (orders:price), otherwise products sell at their price.
+ */
+async function buildOrderItemValues(client: DbClient, items: OrderItemInput[], allowPriceOverride: boolean) {
+  const productIds = [
+    ...new Set(items.flatMap((item) => (item.itemType === 'product' ? [item.productId] : []))),
+  ];
+
+  const found = productIds.length > 0
+    ? await client
+      .select({ id: products.id, price: products.price })
+      .from(products)
+      .where(inArray(products.id, productIds))
+    : [];
+  const pricesById = new Map(found.map((product) => [product.id, product.price]));
+
+  const missing = items.flatMap((item, index) =>
+    item.itemType === 'product' && !pricesById.has(item.productId)
+      ? [{ index, productId: item.productId, message: 'Product not found' }]
+      : []
+  );
+
+  if (missing.length > 0) {
+    throw new ValidationError(400, { items: missing });
+  }
+
+  return items.map((item) => {
+    if (item.itemType === 'product') {
+      return {
+        itemType: 'product',
+        productId: item.productId,
+        amount: item.amount,
+        notes: item.notes,
+        // Accept priceAtSale=0 as valid, otherwise use the current product price
+        priceAtSale: (allowPriceOverride ? item.priceAtSale : undefined) ?? (pricesById.get(item.productId) as number),
+        customName: null,
+        customPrice: null,
+      };
+    }
+
+    return {
+      itemType: 'custom',
+      productId: null,
+      amount: null,
+      notes: item.notes,
+      priceAtSale: item.customPrice,
+      customName: item.customName,
+      customPrice: item.customPrice,
+    };
+  });
+}
 
 /**
  * @swagger
  * /api/orders:
  *   get:
- *     summary: Get all orders with their items
+ *     summary: Get a page of orders with their items
  *     tags: [Orders]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Only return orders in these statuses (comma separated, e.g. pending,ready)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         required: false
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         required: false
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, pickupDate, customerName]
+ *           default: createdAt
+ *         required: false
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *         required: false
+ *       - in: query
+ *         name: pickupFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *         description: Pickup date on or after (YYYY-MM-DD)
+ *       - in: query
+ *         name: pickupTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *         description: Pickup date on or before (YYYY-MM-DD)
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *         description: Created on or after this day (YYYY-MM-DD)
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *         description: Created on or before this day (YYYY-MM-DD)
+ *       - in: query
+ *         name: customer
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Case-insensitive substring of the customer name
+ *       - in: query
+ *         name: customerId
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Only orders of this customer
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Only orders containing this product
+ *       - in: query
+ *         name: hasCustomItems
+ *         schema:
+ *           type: boolean
+ *         required: false
+ *         description: Only orders with (true) or without (false) custom items
  *     responses:
  *       200:
- *         description: List of all orders
+ *         description: Page of orders
  *         content:
  *           application/json:
  *             schema:
  *               type: object
- *               required: [success, data]
+ *               required: [success, data, pagination]
  *               properties:
  *                 success:
  *                   type: boolean
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
  *                 data:
  *                   type: array
  *                   items:
@@ -66,6 +220,9 @@ const router: ExpressRouter = Router();
  *                     properties:
  *                       id:
  *                         type: integer
+ *                       customerId:
+ *                         type: integer
+ *                         nullable: true
  *                       customerName:
  *                         type: string
  *                       pickupDate:
@@ -75,6 +232,17 @@ const router: ExpressRouter = Router();
  *                       notes:
  *                         type: string
  *                         nullable: true
+ *                       status:
+ *                         type: string
+ *                         enum: [pending, in_production, ready, picked_up, cancelled]
+ *                       discount:
+ *                         type: integer
+ *                       fee:
+ *                         type: integer
+ *                       totals:
+ *                         $ref: '#/components/schemas/OrderTotals'
+ *                       balance:
+ *                         $ref: '#/components/schemas/OrderBalance'
  *                       createdAt:
  *                         type: string
  *                         format: date-time
@@ -94,6 +262,10 @@ const router: ExpressRouter = Router();
  *                             notes:
  *                               type: string
  *                               nullable: true
+ *                             unitPrice:
+ *                               type: integer
+ *                             lineTotal:
+ *                               type: integer
  *                             product:
  *                               type: object
  *                               nullable: true
@@ -111,6 +283,7 @@ const router: ExpressRouter = Router();
  *                   customerName: "Alice"
  *                   pickupDate: null
  *                   notes: null
+ *                   status: pending
  *                   createdAt: "2026-01-04T00:00:00.000Z"
  *                   items:
  *                     - id: 100
@@ -122,22 +295,108 @@ const router: ExpressRouter = Router();
  *                         id: 1
  *                         name: "Espresso"
  *                         price: 25000
+ *               pagination:
+ *                 page: 1
+ *                 limit: 20
+ *                 total: 1
+ *                 totalPages: 1
+ *       400:
+ *         description: Invalid query parameters
  */
-router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', requirePermission('orders:read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const allOrders = await db.query.orders.findMany({
+    const query = parseQuery(listOrdersQuerySchema, req.query);
+    const { statuses, invalid } = parseStatusFilter(query.status);
+
+    if (invalid.length > 0) {
+      throw new ValidationError(400, {
+        status: `Invalid status: ${invalid.join(', ')}. Expected one of ${ORDER_STATUSES.join(', ')}`,
+      });
+    }
+
+    const where = buildOrderFilters(query, statuses);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(orders)
+      .where(where);
+
+    const pageOrders = await db.query.orders.findMany({
+      where,
+      orderBy: buildOrderSort(query),
+      limit: query.limit,
+      offset: (query.page - 1) * query.limit,
       with: {
         items: {
           with: {
             product: true,
           },
         },
+        payments: true,
+      },
+    });
+
+    res.json({
+      success: true,
+      data: pageOrders.map(cleanOrder),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
       },
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/orders/scan:
+ *   get:
+ *     summary: Find the order for a scanned barcode or QR code
+ *     description: |
+ *       Accepts the Code128 barcode printed on receipts and labels (e.g. LNQ-000042), the QR code
+ *       content (ORDER_QR_URL, or the same code when unset) or a typed order number.
+ *     tags: [Orders]
+ *     parameters:
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Scanned code
+ *         example: LNQ-000042
+ *     responses:
+ *       200:
+ *         description: The order, in the same shape as GET /api/orders/{id}
+ *       400:
+ *         description: Missing code, or a code that isn't an order code
+ *       404:
+ *         description: Order not found
+ */
+router.get('/scan', requirePermission('orders:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { code } = parseQuery(scanOrderQuerySchema, req.query);
+    const id = parseOrderCode(code);
+
+    if (id === null) {
+      throw new ValidationError(400, { code: 'Not an order code' });
+    }
+
+    const order = await findOrderDetails(id);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
 
     res.json({
       success: true,
-      data: allOrders.map(cleanOrder),
+      data: cleanOrder(order),
     });
   } catch (error) {
     next(error);
@@ -173,15 +432,39 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
  *                   properties:
  *                     id:
  *                       type: integer
+ *                     customerId:
+ *                       type: integer
+ *                       nullable: true
+ *                     customer:
+ *                       $ref: '#/components/schemas/Customer'
  *                     customerName:
  *                       type: string
  *                     pickupDate:
  *                       type: string
  *                       format: date
  *                       nullable: true
+ *                     status:
+ *                       type: string
+ *                       enum: [pending, in_production, ready, picked_up, cancelled]
  *                     createdAt:
  *                       type: string
  *                       format: date-time
+ *                     statusHistory:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/OrderStatusChange'
+ *                     payments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Payment'
+ *                     discount:
+ *                       type: integer
+ *                     fee:
+ *                       type: integer
+ *                     totals:
+ *                       $ref: '#/components/schemas/OrderTotals'
+ *                     balance:
+ *                       $ref: '#/components/schemas/OrderBalance'
  *                     items:
  *                       type: array
  *                       items:
@@ -195,6 +478,10 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
  *                             type: integer
  *                           amount:
  *                             type: integer
+ *                           unitPrice:
+ *                             type: integer
+ *                           lineTotal:
+ *                             type: integer
  *                           product:
  *                             type: object
  *                             nullable: true
@@ -221,7 +508,7 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
  *               success: false
  *               message: "Order not found"
  */
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', requirePermission('orders:read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = parseInt(req.params.id, 10);
 
@@ -229,16 +516,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
       throw new ValidationError(400, { id: 'Invalid order ID' });
     }
 
-    const order = await db.query.orders.findFirst({
-      where: eq(orders.id, id),
-      with: {
-        items: {
-          with: {
-            product: true,
-          },
-        },
-      },
-    });
+    const order = await findOrderDetails(id);
 
     if (!order) {
       return res.status(404).json({
@@ -261,6 +539,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
  * /api/orders:
  *   post:
  *     summary: Create a new order with items
+ *     description: Prints the documents AUTO_PRINT_RULES lists for `created` after responding.
  *     tags: [Orders]
  *     requestBody:
  *       required: true
@@ -268,16 +547,29 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
  *         application/json:
  *           schema:
  *             type: object
- *             required: [customerName, items]
+ *             required: [items]
+ *             description: Provide one of customerId, customer (creates a new customer) or customerName
  *             properties:
  *               customerName:
  *                 type: string
+ *                 description: Name printed on the order (defaults to the linked customer's name)
+ *               customerId:
+ *                 type: integer
+ *                 description: Existing customer to link the order to
+ *               customer:
+ *                 $ref: '#/components/schemas/CustomerInput'
  *               pickupDate:
  *                 type: string
  *                 format: date
  *               notes:
  *                 type: string
  *                 nullable: true
+ *               discount:
+ *                 type: integer
+ *                 description: Order-level discount in IDR
+ *               fee:
+ *                 type: integer
+ *                 description: Order-level extra charge in IDR
  *               items:
  *                 type: array
  *                 minItems: 1
@@ -297,7 +589,8 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
  *                           type: string
  *                         priceAtSale:
  *                           type: integer
- *                           description: Price at sale (optional, overrides current product price)
+ *                           minimum: 0
+ *                           description: Price at sale, overrides the current product price. Owner only, ignored for other roles.
  *                     - type: object
  *                       required: [itemType, customName, customPrice]
  *                       properties:
@@ -336,76 +629,56 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
  *                 data:
  *                   type: object
  *       400:
- *         description: Validation error
+ *         description: Validation error, including items that reference unknown products
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: false
+ *               message: "Validation failed"
+ *               errors:
+ *                 items:
+ *                   - index: 1
+ *                     productId: 999
+ *                     message: "Product not found"
  */
 router.post(
   '/',
+  requirePermission('orders:write'),
   validateRequest(createOrderSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const data: CreateOrderInput = req.body;
 
-      // Create order
-      const createdOrder = await db
-        .insert(orders)
-        .values({
-          customerName: data.customerName,
-          pickupDate: data.pickupDate,
-        })
-        .returning();
-
-      const orderId = createdOrder[0].id;
-
-      // Create order items
-      const items = await db
-        .insert(orderItems)
-        .values(
-          await Promise.all(
-            data.items.map(async (item) => {
-              if (item.itemType === 'product') {
-              // Accept priceAtSale=0 as valid
-                let priceAtSale;
-                if (
-                  'priceAtSale' in item &&
-                  item.priceAtSale !== undefined &&
-                  item.priceAtSale !== null &&
-                  !isNaN(item.priceAtSale)
-                ) {
-                  priceAtSale = item.priceAtSale;
-                } else {
-                  const product = await db.query.products.findFirst({
-                    where: eq(products.id, item.productId),
-                  });
-                  priceAtSale = product?.price ?? null;
-                }
-                return {
-                  orderId,
-                  itemType: 'product',
-                  productId: item.productId,
-                  amount: item.amount,
-                  notes: item.notes,
-                  priceAtSale,
-                  customName: null,
-                  customPrice: null,
-                };
-              } else if (item.itemType === 'custom') {
-                return {
-                  orderId,
-                  itemType: 'custom',
-                  productId: null,
-                  amount: null,
-                  notes: item.notes,
-                  priceAtSale: item.customPrice,
-                  customName: item.customName,
-                  customPrice: item.customPrice,
-                };
-              } else {
-                throw new ValidationError(400, { items: 'Invalid item type' });
-              }
-            })
-          )
-        )
-        .returning();
+      // Order, customer and items are written together or not at all
+      const orderId = await db.transaction(async (tx) => {
+        // Link to an existing customer, or create one from inline data
+        const customer = await resolveOrderCustomer(data, tx);
+
+        if (!customer.customerName) {
+          throw new ValidationError(400, { customerName: 'Customer name is required' });
+        }
+
+        // Resolve prices (and reject unknown products) before anything is written
+        const itemValues = await buildOrderItemValues(tx, data.items, canSetItemPrices(req));
+
+        const createdOrder = await tx
+          .insert(orders)
+          .values({
+            customerId: customer.customerId,
+            customerName: customer.customerName,
+            pickupDate: data.pickupDate,
+            notes: data.notes,
+            discount: data.discount,
+            fee: data.fee,
+          })
+          .returning();
+
+        await tx
+          .insert(orderItems)
+          .values(itemValues.map((item) => ({ ...item, orderId: createdOrder[0].id })));
+
+        return createdOrder[0].id;
+      });
 
       const completeOrder = await db.query.orders.findFirst({
         where: eq(orders.id, orderId),
@@ -415,6 +688,7 @@ router.post(
               product: true,
             },
           },
+          payments: true,
         },
       });
 
@@ -422,6 +696,8 @@ router.post(
         success: true,
         data: cleanOrder(completeOrder),
       });
+
+      triggerAutoPrint('created', orderId, req.auth?.name);
     } catch (error) {
       next(error);
     }
@@ -450,12 +726,20 @@ router.post(
  *             properties:
  *               customerName:
  *                 type: string
+ *               customerId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Link (or with null, unlink) a customer
  *               pickupDate:
  *                 type: string
  *                 format: date
  *                 nullable: true
  *               notes:
  *                 type: string
+ *               discount:
+ *                 type: integer
+ *               fee:
+ *                 type: integer
  *               items:
  *                 type: array
  *                 minItems: 1
@@ -475,6 +759,8 @@ router.post(
  *                           type: string
  *                         priceAtSale:
  *                           type: integer
+ *                           minimum: 0
+ *                           description: Owner only, ignored for other roles
  *                     - type: object
  *                       required: [itemType, customName, customPrice]
  *                       properties:
@@ -512,10 +798,11 @@ router.post(
  *       404:
  *         description: Order not found
  *       400:
- *         description: Validation error
+ *         description: Validation error, including items that reference unknown products (nothing is changed)
  */
 router.put(
   '/:id',
+  requirePermission('orders:write'),
   validateRequest(updateOrderSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -527,95 +814,317 @@ router.put(
 
       const data: UpdateOrderInput = req.body;
 
-      // Build update object with only provided fields
-      const updateData: Partial<typeof orders.$inferInsert> = {};
-      if (data.customerName !== undefined) updateData.customerName = data.customerName;
-      if (data.pickupDate !== undefined) updateData.pickupDate = data.pickupDate;
-      if (data.notes !== undefined) updateData.notes = data.notes;
-
-      // Update order details only if there are fields to update
-      if (Object.keys(updateData).length > 0) {
-        const result = await db
-          .update(orders)
-          .set(updateData)
+      // Order fields and item replacement are applied together or not at all
+      const found = await db.transaction(async (tx) => {
+        // Lock the order row so concurrent item replacements can't interleave
+        const existing = await tx
+          .select({ id: orders.id })
+          .from(orders)
           .where(eq(orders.id, id))
-          .returning();
+          .for('update');
 
-        if (result.length === 0) {
-          return res.status(404).json({
-            success: false,
-            message: 'Order not found',
-          });
+        if (existing.length === 0) {
+          return false;
         }
-      } else {
-        // If no order fields to update, just verify order exists
-        const exists = await db.query.orders.findFirst({
-          where: eq(orders.id, id),
-        });
 
-        if (!exists) {
-          return res.status(404).json({
-            success: false,
-            message: 'Order not found',
-          });
+        // Resolve prices (and reject unknown products) before anything is written
+        const itemValues = data.items ? await buildOrderItemValues(tx, data.items, canSetItemPrices(req)) : undefined;
+
+        // Build update object with only provided fields
+        const updateData: Partial<typeof orders.$inferInsert> = {};
+        if (data.customerId !== undefined) {
+          const customer = await resolveOrderCustomer(data, tx);
+          updateData.customerId = customer.customerId;
+          if (customer.customerName !== undefined) updateData.customerName = customer.customerName;
         }
+        if (data.customerName !== undefined) updateData.customerName = data.customerName;
+        if (data.pickupDate !== undefined) updateData.pickupDate = data.pickupDate;
+        if (data.notes !== undefined) updateData.notes = data.notes;
+        if (data.discount !== undefined) updateData.discount = data.discount;
+        if (data.fee !== undefined) updateData.fee = data.fee;
+
+        if (Object.keys(updateData).length > 0) {
+          await tx
+            .update(orders)
+            .set(updateData)
+            .where(eq(orders.id, id));
+        }
+
+        // If items are provided, replace all items
+        if (itemValues) {
+          await tx.delete(orderItems).where(eq(orderItems.orderId, id));
+          await tx
+            .insert(orderItems)
+            .values(itemValues.map((item) => ({ ...item, orderId: id })));
+        }
+
+        return true;
+      });
+
+      if (!found) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
       }
 
-      // If items are provided, replace all items
-      if (data.items) {
-        // Delete existing items
-        await db.delete(orderItems).where(eq(orderItems.orderId, id));
+      const completeOrder = await db.query.orders.findFirst({
+        where: eq(orders.id, id),
+        with: {
+          items: {
+            with: {
+              product: true,
+            },
+          },
+          payments: true,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: cleanOrder(completeOrder),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
-        // Insert new items, allow priceAtSale override
-        await db
-          .insert(orderItems)
-          .values(
-            await Promise.all(
-              data.items.map(async (item) => {
-                if (item.itemType === 'product') {
-                  // Accept priceAtSale=0 as valid
-                  let priceAtSale;
-                  if (
-                    'priceAtSale' in item &&
-                    item.priceAtSale !== undefined &&
-                    item.priceAtSale !== null &&
-                    !isNaN(item.priceAtSale)
-                  ) {
-                    priceAtSale = item.priceAtSale;
-                  } else {
-                    const product = await db.query.products.findFirst({
-                      where: eq(products.id, item.productId),
-                    });
-                    priceAtSale = product?.price ?? null;
-                  }
-                  return {
-                    orderId: id,
-                    itemType: 'product',
-                    productId: item.productId,
-                    amount: item.amount,
-                    notes: item.notes,
-                    priceAtSale,
-                    customName: null,
-                    customPrice: null,
-                  };
-                } else if (item.itemType === 'custom') {
-                  return {
-                    orderId: id,
-                    itemType: 'custom',
-                    productId: null,
-                    amount: null,
-                    notes: item.notes,
-                    priceAtSale: item.customPrice,
-                    customName: item.customName,
-                    customPrice: item.customPrice,
-                  };
-                } else {
-                  throw new ValidationError(400, { items: 'Invalid item type' });
-                }
-              })
-            )
-          );
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Pagination:
+ *       type: object
+ *       properties:
+ *         page:
+ *           type: integer
+ *         limit:
+ *           type: integer
+ *         total:
+ *           type: integer
+ *           description: Number of orders matching the filters
+ *         totalPages:
+ *           type: integer
+ *     OrderTotals:
+ *       type: object
+ *       description: Server-computed totals (shared with printed receipts)
+ *       properties:
+ *         subtotal:
+ *           type: integer
+ *           description: Sum of all line totals
+ *         discount:
+ *           type: integer
+ *         fee:
+ *           type: integer
+ *         total:
+ *           type: integer
+ *           description: subtotal - discount + fee
+ *     OrderStatusChange:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         orderId:
+ *           type: integer
+ *         fromStatus:
+ *           type: string
+ *         toStatus:
+ *           type: string
+ *         changedBy:
+ *           type: string
+ *           nullable: true
+ *         notes:
+ *           type: string
+ *           nullable: true
+ *         changedAt:
+ *           type: string
+ *           format: date-time
+ * /api/orders/{id}/status:
+ *   post:
+ *     summary: Move an order to a new status
+ *     description: |
+ *       Allowed transitions: pending -> in_production -> ready -> picked_up.
+ *       Any non-terminal order can be cancelled. picked_up and cancelled are final.
+ *       The kitchen role may only move orders to in_production or ready.
+ *       Prints the documents AUTO_PRINT_RULES lists for the new status after responding.
+ *     tags: [Orders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Order ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, in_production, ready, picked_up, cancelled]
+ *               changedBy:
+ *                 type: string
+ *                 description: Name of the staff member reporting the change, kept in the history notes. The history always records the authenticated user or API key as changedBy.
+ *               notes:
+ *                 type: string
+ *               allowOutstandingBalance:
+ *                 type: boolean
+ *                 description: Allow moving to picked_up while a balance is still outstanding
+ *           example:
+ *             status: in_production
+ *             changedBy: "Rina"
+ *     responses:
+ *       200:
+ *         description: Status changed; returns the updated order with its status history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: The caller's role may not set this status
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Transition not allowed from the current status, or picked_up with an outstanding balance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, message]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 allowed:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *             example:
+ *               success: false
+ *               message: "Cannot change order status from picked_up to pending"
+ *               allowed: []
+ */
+router.post(
+  '/:id/status',
+  requirePermission('orders:status', 'orders:production'),
+  validateRequest(orderStatusTransitionSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
 
+      if (isNaN(id)) {
+        throw new ValidationError(400, { id: 'Invalid order ID' });
+      }
+
+      const data: OrderStatusTransitionInput = req.body;
+
+      if (!canSetOrderStatus(req.auth!.role, data.status)) {
+        return res.status(403).json({
+          success: false,
+          message: `Role '${req.auth!.role}' is not allowed to move orders to ${data.status}`,
+        });
+      }
+
+      // Checked and changed together, with the order row locked: a payment deleted or
+      // an item edited meanwhile waits, so the balance checked here is the one that counts
+      const rejection = await db.transaction(async (tx) => {
+        const locked = await tx
+          .select({ id: orders.id })
+          .from(orders)
+          .where(eq(orders.id, id))
+          .for('update');
+
+        const existing = locked.length > 0
+          ? await tx.query.orders.findFirst({
+            where: eq(orders.id, id),
+            with: {
+              items: {
+                with: {
+                  product: true,
+                },
+              },
+              payments: true,
+            },
+          })
+          : undefined;
+
+        if (!existing) {
+          return { status: 404, body: { success: false, message: 'Order not found' } };
+        }
+
+        const from = isOrderStatus(existing.status) ? existing.status : 'pending';
+
+        if (!canTransition(from, data.status)) {
+          return {
+            status: 409,
+            body: {
+              success: false,
+              message: `Cannot change order status from ${from} to ${data.status}`,
+              allowed: getAllowedTransitions(from),
+            },
+          };
+        }
+
+        let notes = data.notes;
+        const addNote = (note: string) => {
+          notes = notes ? `${notes} (${note})` : note;
+        };
+
+        if (data.changedBy && data.changedBy !== req.auth?.name) {
+          addNote(`Reported by ${data.changedBy}`);
+        }
+
+        if (data.status === 'picked_up') {
+          const totals = computeOrderTotals(existing.items, existing);
+          const balance = summarizePayments(totals.total, existing.payments);
+
+          if (balance.outstanding > 0) {
+            if (!data.allowOutstandingBalance) {
+              return {
+                status: 409,
+                body: {
+                  success: false,
+                  message: `Order still has an outstanding balance of ${balance.outstanding}`,
+                  balance,
+                },
+              };
+            }
+            addNote(`Picked up with outstanding balance of ${balance.outstanding}`);
+          }
+        }
+
+        await tx
+          .update(orders)
+          .set({ status: data.status })
+          .where(eq(orders.id, id));
+
+        await tx.insert(orderStatusHistory).values({
+          orderId: id,
+          fromStatus: from,
+          toStatus: data.status,
+          changedBy: req.auth?.name,
+          notes,
+        });
+
+        return null;
+      });
+
+      if (rejection) {
+        return res.status(rejection.status).json(rejection.body);
       }
 
       const completeOrder = await db.query.orders.findFirst({
@@ -626,6 +1135,10 @@ router.put(
               product: true,
             },
           },
+          payments: true,
+          statusHistory: {
+            orderBy: [asc(orderStatusHistory.changedAt), asc(orderStatusHistory.id)],
+          },
         },
       });
 
@@ -633,6 +1146,8 @@ router.put(
         success: true,
         data: cleanOrder(completeOrder),
       });
+
+      triggerAutoPrint(data.status, id, req.auth?.name);
     } catch (error) {
       next(error);
     }
@@ -668,7 +1183,7 @@ router.put(
  *       404:
  *         description: Order not found
  */
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', requirePermission('orders:delete'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = parseInt(req.params.id, 10);
 
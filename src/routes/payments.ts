@@ -0,0 +1,410 @@
+import { Router, Request, Response, NextFunction, Router as ExpressRouter } from 'express';
+import { db, DbClient } from '../db';
+import { orders, payments } from '../db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { validateRequest, ValidationError } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
+import { createPaymentSchema, CreatePaymentInput } from '../validators';
+import { summarizePayments } from '../services/payments';
+import { computeOrderTotals } from '../services/pricing';
+import { triggerAutoPrint } from '../services/orderPrinting';
+
+// Mounted under /api/orders/:orderId/payments
+const router: ExpressRouter = Router({ mergeParams: true });
+
+function parseOrderId(req: Request): number {
+  const orderId = parseInt(req.params.orderId, 10);
+
+  if (isNaN(orderId)) {
+    throw new ValidationError(400, { orderId: 'Invalid order ID' });
+  }
+
+  return orderId;
+}
+
+async function findOrderWithPayments(orderId: number, client: DbClient = db) {
+  return client.query.orders.findFirst({
+    where: eq(orders.id, orderId),
+    with: {
+      items: {
+        with: {
+          product: true,
+        },
+      },
+      payments: {
+        orderBy: [asc(payments.paidAt), asc(payments.id)],
+      },
+    },
+  });
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Payment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         orderId:
+ *           type: integer
+ *         amount:
+ *           type: integer
+ *         method:
+ *           type: string
+ *           enum: [cash, transfer, qris]
+ *         reference:
+ *           type: string
+ *           nullable: true
+ *         receivedBy:
+ *           type: string
+ *           nullable: true
+ *         notes:
+ *           type: string
+ *           nullable: true
+ *         paidAt:
+ *           type: string
+ *           format: date-time
+ *     OrderBalance:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *         paid:
+ *           type: integer
+ *         outstanding:
+ *           type: integer
+ *           description: Remaining amount to be paid (negative when overpaid)
+ *         status:
+ *           type: string
+ *           enum: [unpaid, partial, paid]
+ * /api/orders/{orderId}/payments:
+ *   get:
+ *     summary: List payments for an order with its balance
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Order ID
+ *     responses:
+ *       200:
+ *         description: Payments and balance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     payments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Payment'
+ *                     balance:
+ *                       $ref: '#/components/schemas/OrderBalance'
+ *             example:
+ *               success: true
+ *               data:
+ *                 payments:
+ *                   - id: 1
+ *                     orderId: 10
+ *                     amount: 100000
+ *                     method: transfer
+ *                     reference: null
+ *                     receivedBy: "Rina"
+ *                     notes: "DP"
+ *                     paidAt: "2026-01-04T00:00:00.000Z"
+ *                 balance:
+ *                   total: 250000
+ *                   paid: 100000
+ *                   outstanding: 150000
+ *                   status: partial
+ *       404:
+ *         description: Order not found
+ */
+router.get('/', requirePermission('payments:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const orderId = parseOrderId(req);
+    const order = await findOrderWithPayments(orderId);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        payments: order.payments,
+        balance: summarizePayments(computeOrderTotals(order.items, order).total, order.payments),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/payments:
+ *   post:
+ *     summary: Record a (partial) payment for an order
+ *     description: When this payment settles the order, prints the documents AUTO_PRINT_RULES lists for `paid` after responding.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Order ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, method]
+ *             properties:
+ *               amount:
+ *                 type: integer
+ *                 description: Amount in IDR, cannot exceed the outstanding balance
+ *               method:
+ *                 type: string
+ *                 enum: [cash, transfer, qris]
+ *               reference:
+ *                 type: string
+ *               receivedBy:
+ *                 type: string
+ *                 description: Name of the staff member who took the payment, kept in the notes. The payment always records the authenticated user or API key as receivedBy.
+ *               notes:
+ *                 type: string
+ *               paidAt:
+ *                 type: string
+ *                 format: date-time
+ *           example:
+ *             amount: 100000
+ *             method: cash
+ *             notes: "DP"
+ *     responses:
+ *       201:
+ *         description: Payment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     payment:
+ *                       $ref: '#/components/schemas/Payment'
+ *                     balance:
+ *                       $ref: '#/components/schemas/OrderBalance'
+ *       400:
+ *         description: Validation error (including amount above the outstanding balance)
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Order is cancelled
+ */
+router.post(
+  '/',
+  requirePermission('payments:write'),
+  validateRequest(createPaymentSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orderId = parseOrderId(req);
+      const data: CreatePaymentInput = req.body;
+
+      // Checked and recorded together, so concurrent payments can't both fit in the
+      // same outstanding balance
+      const recorded = await db.transaction(async (tx) => {
+        // Lock the order row: a second payment waits until this one is committed
+        const locked = await tx
+          .select({ id: orders.id })
+          .from(orders)
+          .where(eq(orders.id, orderId))
+          .for('update');
+
+        const order = locked.length > 0 ? await findOrderWithPayments(orderId, tx) : undefined;
+
+        if (!order) {
+          return 'not_found' as const;
+        }
+
+        if (order.status === 'cancelled') {
+          return 'cancelled' as const;
+        }
+
+        const { total } = computeOrderTotals(order.items, order);
+        const balance = summarizePayments(total, order.payments);
+
+        if (data.amount > balance.outstanding) {
+          throw new ValidationError(400, {
+            amount: `Payment exceeds outstanding balance of ${Math.max(balance.outstanding, 0)}`,
+          });
+        }
+
+        let notes = data.notes;
+
+        if (data.receivedBy && data.receivedBy !== req.auth?.name) {
+          const reported = `Received by ${data.receivedBy}`;
+          notes = notes ? `${notes} (${reported})` : reported;
+        }
+
+        const result = await tx
+          .insert(payments)
+          .values({
+            orderId,
+            amount: data.amount,
+            method: data.method,
+            reference: data.reference,
+            receivedBy: req.auth?.name,
+            notes,
+            paidAt: data.paidAt ? new Date(data.paidAt) : undefined,
+          })
+          .returning();
+
+        return { result, balance, updatedBalance: summarizePayments(total, [...order.payments, result[0]]) };
+      });
+
+      if (recorded === 'not_found') {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      if (recorded === 'cancelled') {
+        return res.status(409).json({
+          success: false,
+          message: 'Cannot record a payment for a cancelled order',
+        });
+      }
+
+      const { result, balance, updatedBalance } = recorded;
+
+      res.status(201).json({
+        success: true,
+        data: {
+          payment: result[0],
+          balance: updatedBalance,
+        },
+      });
+
+      // Only the payment that settles the order counts as paid
+      if (balance.status !== 'paid' && updatedBalance.status === 'paid') {
+        triggerAutoPrint('paid', orderId, req.auth?.name);
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/orders/{orderId}/payments/{paymentId}:
+ *   delete:
+ *     summary: Remove a payment recorded by mistake
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Order ID
+ *       - in: path
+ *         name: paymentId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Payment ID
+ *     responses:
+ *       200:
+ *         description: Payment deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, message]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Payment'
+ *       404:
+ *         description: Payment not found
+ *       409:
+ *         description: The order is picked up or cancelled
+ */
+router.delete('/:paymentId', requirePermission('payments:delete'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const orderId = parseOrderId(req);
+    const paymentId = parseInt(req.params.paymentId, 10);
+
+    if (isNaN(paymentId)) {
+      throw new ValidationError(400, { paymentId: 'Invalid payment ID' });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      // Locked like a status change, so an order can't be picked up while its payment goes
+      const [order] = await tx
+        .select({ status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for('update');
+
+      // Payments of finished orders are part of their record
+      if (order && (order.status === 'picked_up' || order.status === 'cancelled')) {
+        return order.status;
+      }
+
+      return tx
+        .delete(payments)
+        .where(and(eq(payments.id, paymentId), eq(payments.orderId, orderId)))
+        .returning();
+    });
+
+    if (typeof result === 'string') {
+      return res.status(409).json({
+        success: false,
+        message: `Cannot delete a payment of a ${result.replace('_', ' ')} order`,
+      });
+    }
+
+    if (result.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Payment deleted successfully',
+      data: result[0],
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,17 +1,205 @@
 import { Router, Request, Response, NextFunction, Router as ExpressRouter } from 'express';
 import { db } from '../db';
-import { orders } from '../db/schema';
+import { printJobs } from '../db/schema';
 import { eq } from 'drizzle-orm';
-import { ValidationError } from '../middleware/validation';
-import { buildPrinterOutput, writeToPrinterDevice, PrinterOrder } from '../services/printer';
+import { parseQuery, ValidationError } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
+import {
+  buildPrepListOutput,
+  getPrinterColumns,
+  DEFAULT_PRINTER_COLUMNS,
+  ORDER_DOCUMENT_PRINTER_ROLES,
+  PrinterRole,
+} from '../services/printer';
+import {
+  cancelPrintJob,
+  listPrintJobs,
+  reprintJob,
+  retryPrintJob,
+  submitPrintJob,
+  summarizePrintJob,
+  PrintJob,
+} from '../services/printQueue';
+import { getPrepList } from '../services/prepList';
+import { buildOrderOutput, findPrintableOrder, printOrderDocument } from '../services/orderPrinting';
+import { checkPrinters, resolvePrintTarget, PrintTarget } from '../services/printers';
+import { renderPreviewHtml, renderPreviewText } from '../services/printPreview';
+import { getPrinterDotWidth, getReceiptLogoId, renderRasterImage, setReceiptLogo } from '../services/printLogo';
+import { getImageUrl, uploadImage } from '../services/minio';
+import { deleteImageIfUnused } from '../services/images';
+import { sanitizeImageUpload, uploadMiddleware } from '../middleware/upload';
+import {
+  listPrintJobsQuerySchema,
+  prepListQuerySchema,
+  previewOrderQuerySchema,
+  printOrderQuerySchema,
+  printTargetQuerySchema,
+} from '../validators';
 
 const router: ExpressRouter = Router();
 
+// 200 once printed, 202 while retries are pending, 502 when every attempt failed
+function sendPrintJobResult(res: Response, job: PrintJob, data: Record<string, unknown>) {
+  const printed = job.status === 'done';
+
+  if (job.status === 'failed') {
+    return res.status(502).json({
+      success: false,
+      message: `Print failed: ${job.lastError ?? 'unknown error'}`,
+      job: summarizePrintJob(job),
+    });
+  }
+
+  res.status(printed ? 200 : 202).json({
+    success: true,
+    data: {
+      printed,
+      printerId: job.printerId,
+      devicePath: job.devicePath,
+      ...data,
+      job: summarizePrintJob(job),
+    },
+  });
+}
+
+// `?printer=<name>` picks a registered printer; otherwise the first one with the role
+async function getPrintTarget(role: PrinterRole, query: unknown): Promise<PrintTarget> {
+  const { printer } = parseQuery(printTargetQuerySchema, query);
+  const target = await resolvePrintTarget(role, printer);
+
+  if (!target) {
+    throw new ValidationError(400, { printer: `Unknown or inactive printer: ${printer}` });
+  }
+
+  return target;
+}
+
+// 400 for an ID that isn't a number, undefined for an unknown order
+function findOrderForPrinting(idParam: string) {
+  const id = parseInt(idParam, 10);
+
+  if (isNaN(id)) {
+    throw new ValidationError(400, { id: 'Invalid order ID' });
+  }
+
+  return findPrintableOrder(id);
+}
+
+function parseJobId(value: string): number {
+  const id = parseInt(value, 10);
+
+  if (isNaN(id)) {
+    throw new ValidationError(400, { id: 'Invalid print job ID' });
+  }
+
+  return id;
+}
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     PrinterName:
+ *       in: query
+ *       name: printer
+ *       schema:
+ *         type: string
+ *       required: false
+ *       description: Name of a registered printer. Defaults to the first active printer with the matching role, then PRINTER_DEVICE_PATH.
+ *   schemas:
+ *     PrintJob:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         kind:
+ *           type: string
+ *           enum: [receipt, kitchen_ticket, pickup_label, prep_list]
+ *         orderId:
+ *           type: integer
+ *           nullable: true
+ *         description:
+ *           type: string
+ *         printerId:
+ *           type: integer
+ *           nullable: true
+ *         devicePath:
+ *           type: string
+ *           nullable: true
+ *           description: Only set for jobs sent to PRINTER_DEVICE_PATH instead of a registered printer
+ *         status:
+ *           type: string
+ *           enum: [queued, printing, done, failed, cancelled]
+ *         attempts:
+ *           type: integer
+ *         maxAttempts:
+ *           type: integer
+ *         lastError:
+ *           type: string
+ *           nullable: true
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *         reprintOf:
+ *           type: integer
+ *           nullable: true
+ *           description: Job whose bytes were printed again
+ *         createdBy:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         printedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         size:
+ *           type: integer
+ *           description: Size of the ESC/POS output in bytes
+ *     PrintResult:
+ *       type: object
+ *       required: [success, data]
+ *       properties:
+ *         success:
+ *           type: boolean
+ *         data:
+ *           type: object
+ *           properties:
+ *             printed:
+ *               type: boolean
+ *               description: false while the job is waiting for a retry
+ *             printerId:
+ *               type: integer
+ *               nullable: true
+ *             devicePath:
+ *               type: string
+ *               nullable: true
+ *             job:
+ *               $ref: '#/components/schemas/PrintJob'
+ *     PrintFailed:
+ *       type: object
+ *       required: [success, message]
+ *       properties:
+ *         success:
+ *           type: boolean
+ *         message:
+ *           type: string
+ *         job:
+ *           $ref: '#/components/schemas/PrintJob'
+ */
+
 /**
  * @swagger
  * /api/printer/orders/{id}/print:
  *   post:
  *     summary: Print an order to ESC/POS printer
+ *     description: |
+ *       The output is stored as a print job and sent to the printer right away.
+ *       If that fails (printer off, out of paper) the job is retried in the background with backoff.
+ *
+ *       Each document goes to the printer with the matching role unless a printer is named:
+ *       receipt to `receipt`, kitchen_ticket to `kitchen` and pickup_label to `label`.
  *     tags: [Printer]
  *     parameters:
  *       - in: path
@@ -20,6 +208,15 @@ const router: ExpressRouter = Router();
  *           type: integer
  *         required: true
  *         description: Order ID
+ *       - in: query
+ *         name: document
+ *         schema:
+ *           type: string
+ *           enum: [receipt, kitchen_ticket, pickup_label]
+ *           default: receipt
+ *         required: false
+ *         description: Customer receipt with prices and payments, kitchen ticket without prices, or pickup label
+ *       - $ref: '#/components/parameters/PrinterName'
  *     responses:
  *       200:
  *         description: Print job sent
@@ -41,12 +238,30 @@ const router: ExpressRouter = Router();
  *                       type: string
  *                     orderId:
  *                       type: integer
+ *                     document:
+ *                       type: string
+ *                       enum: [receipt, kitchen_ticket, pickup_label]
+ *                     job:
+ *                       $ref: '#/components/schemas/PrintJob'
  *             example:
  *               success: true
  *               data:
  *                 printed: true
  *                 devicePath: "/dev/usb/lp0"
  *                 orderId: 10
+ *                 document: "receipt"
+ *       202:
+ *         description: The first attempt failed; the job is queued for a retry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintResult'
+ *       502:
+ *         description: Printing failed and no attempts are left
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintFailed'
  *       404:
  *         description: Order not found
  *         content:
@@ -65,24 +280,99 @@ const router: ExpressRouter = Router();
  *       400:
  *         description: Validation error
  */
-router.post('/orders/:id/print', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/orders/:id/print', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const id = parseInt(req.params.id, 10);
+    const order = await findOrderForPrinting(req.params.id);
 
-    if (isNaN(id)) {
-      throw new ValidationError(400, { id: 'Invalid order ID' });
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
     }
 
-    const order = await db.query.orders.findFirst({
-      where: eq(orders.id, id),
-      with: {
-        items: {
-          with: {
-            product: true,
-          },
-        },
-      },
-    });
+    const { document } = parseQuery(printOrderQuerySchema, req.query);
+    const target = await getPrintTarget(ORDER_DOCUMENT_PRINTER_ROLES[document], req.query);
+    const job = await printOrderDocument(order, document, target, req.auth?.name);
+
+    sendPrintJobResult(res, job, { orderId: order.id, document });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/printer/orders/{id}/preview:
+ *   get:
+ *     summary: Preview an order document without printing it
+ *     description: |
+ *       Renders the exact bytes POST /api/printer/orders/{id}/print would send, laid out at the
+ *       printer's paper width. Returns both previews as JSON, or only one with format=text or format=html.
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Order ID
+ *       - in: query
+ *         name: document
+ *         schema:
+ *           type: string
+ *           enum: [receipt, kitchen_ticket, pickup_label]
+ *           default: receipt
+ *         required: false
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, text, html]
+ *           default: json
+ *         required: false
+ *       - $ref: '#/components/parameters/PrinterName'
+ *     responses:
+ *       200:
+ *         description: Rendered preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   required: [orderId, document, columns, text, html]
+ *                   properties:
+ *                     orderId:
+ *                       type: integer
+ *                     document:
+ *                       type: string
+ *                       enum: [receipt, kitchen_ticket, pickup_label]
+ *                     columns:
+ *                       type: integer
+ *                       description: Characters per line the document was laid out for
+ *                     text:
+ *                       type: string
+ *                     html:
+ *                       type: string
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Order not found
+ *       400:
+ *         description: Validation error
+ */
+router.get('/orders/:id/preview', requirePermission('orders:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const order = await findOrderForPrinting(req.params.id);
 
     if (!order) {
       return res.status(404).json({
@@ -91,42 +381,26 @@ router.post('/orders/:id/print', async (req: Request, res: Response, next: NextF
       });
     }
 
-    const printable: PrinterOrder = {
-      id: order.id,
-      customer: order.customerName,
-      date: order.createdAt ?? new Date(),
-      pickupDate: order.pickupDate ?? null,
-      notes: order.notes ?? null,
-      items: order.items.map((item) => {
-        if (item.itemType === 'custom') {
-          return {
-            name: item.customName ?? 'Custom Item',
-            quantity: 1,
-            price: item.priceAtSale ?? item.customPrice ?? 0,
-            notes: item.notes ? [item.notes] : undefined,
-          };
-        } else {
-          return {
-            name: item.product?.name ?? `Product ${item.productId}`,
-            quantity: item.amount ?? 1,
-            price: item.priceAtSale ?? item.product?.price ?? 0,
-            notes: item.notes ? [item.notes] : undefined,
-          };
-        }
-      }),
-    };
-
-    const devicePath = process.env.PRINTER_DEVICE_PATH || '/dev/usb/lp0';
-
-    const output = buildPrinterOutput(printable);
-    await writeToPrinterDevice(devicePath, output);
+    const { document, format } = parseQuery(previewOrderQuerySchema, req.query);
+    const target = await getPrintTarget(ORDER_DOCUMENT_PRINTER_ROLES[document], req.query);
+    const columns = target.columns ?? DEFAULT_PRINTER_COLUMNS;
+    const content = await buildOrderOutput(order, document, { columns, codePage: target.codePage });
+
+    if (format === 'text') {
+      return res.type('text/plain').send(renderPreviewText(content, columns));
+    }
+    if (format === 'html') {
+      return res.type('text/html').send(renderPreviewHtml(content, columns));
+    }
 
     res.json({
       success: true,
       data: {
-        printed: true,
-        devicePath,
         orderId: order.id,
+        document,
+        columns,
+        text: renderPreviewText(content, columns),
+        html: renderPreviewHtml(content, columns),
       },
     });
   } catch (error) {
@@ -134,4 +408,670 @@ router.post('/orders/:id/print', async (req: Request, res: Response, next: NextF
   }
 });
 
+/**
+ * @swagger
+ * /api/printer/status:
+ *   get:
+ *     summary: Check whether the printers are reachable and ready
+ *     description: |
+ *       Network printers are asked for their real-time status (DLE EOT), which reports
+ *       offline, cover open, paper low and paper out. Device printers are only checked
+ *       for being plugged in, so those fields are null.
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: query
+ *         name: printer
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Only check this printer. Defaults to every active printer.
+ *     responses:
+ *       200:
+ *         description: Status per printer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       printerId:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: null for PRINTER_DEVICE_PATH
+ *                       name:
+ *                         type: string
+ *                       transport:
+ *                         type: string
+ *                       role:
+ *                         type: string
+ *                         nullable: true
+ *                       ready:
+ *                         type: boolean
+ *                       status:
+ *                         type: object
+ *                         properties:
+ *                           reachable:
+ *                             type: boolean
+ *                           online:
+ *                             type: boolean
+ *                             nullable: true
+ *                           coverOpen:
+ *                             type: boolean
+ *                             nullable: true
+ *                           paperOut:
+ *                             type: boolean
+ *                             nullable: true
+ *                           paperLow:
+ *                             type: boolean
+ *                             nullable: true
+ *                           error:
+ *                             type: boolean
+ *                             nullable: true
+ *                           message:
+ *                             type: string
+ *                             nullable: true
+ *             example:
+ *               success: true
+ *               data:
+ *                 - printerId: 2
+ *                   name: "kitchen"
+ *                   transport: "tcp"
+ *                   role: "kitchen"
+ *                   ready: false
+ *                   status:
+ *                     reachable: true
+ *                     online: false
+ *                     coverOpen: false
+ *                     paperOut: true
+ *                     paperLow: true
+ *                     error: false
+ *                     message: null
+ *       404:
+ *         description: Printer not found
+ */
+router.get('/status', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { printer } = parseQuery(printTargetQuerySchema, req.query);
+    const reports = await checkPrinters(printer);
+
+    if (printer && reports.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Printer not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: reports,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReceiptLogo:
+ *       type: object
+ *       required: [imageId, url]
+ *       properties:
+ *         imageId:
+ *           type: string
+ *         url:
+ *           type: string
+ * /api/printer/logo:
+ *   get:
+ *     summary: Get the logo printed at the top of receipts
+ *     tags: [Printer]
+ *     responses:
+ *       200:
+ *         description: Current logo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReceiptLogo'
+ *       404:
+ *         description: No logo set
+ *   put:
+ *     summary: Upload the logo printed at the top of receipts
+ *     description: |
+ *       Stored with the other images in MinIO and printed as a dithered black and white
+ *       raster, scaled to each printer's paper width. Replaces the previous logo, which is
+ *       deleted unless a product uses it.
+ *     tags: [Printer]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [image]
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: PNG, JPEG, GIF or WebP, max 5MB
+ *     responses:
+ *       200:
+ *         description: Logo saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReceiptLogo'
+ *       400:
+ *         description: Missing or unreadable image
+ *   delete:
+ *     summary: Stop printing a logo on receipts
+ *     tags: [Printer]
+ *     responses:
+ *       200:
+ *         description: Logo removed
+ *       404:
+ *         description: No logo set
+ */
+router.get('/logo', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const imageId = await getReceiptLogoId();
+
+    if (!imageId) {
+      return res.status(404).json({
+        success: false,
+        message: 'No receipt logo set',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { imageId, url: getImageUrl(imageId) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put(
+  '/logo',
+  requirePermission('printers:manage'),
+  uploadMiddleware.single('image'),
+  sanitizeImageUpload,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        throw new ValidationError(400, { image: 'Image file is required' });
+      }
+
+      // Rendered before uploading, so an image the printer can't use is never saved
+      try {
+        await renderRasterImage(req.file.buffer, getPrinterDotWidth(getPrinterColumns(80)));
+      } catch {
+        throw new ValidationError(400, { image: 'Could not read the image' });
+      }
+
+      const imageId = await uploadImage(req.file.buffer, req.file.mimetype);
+      const previous = await setReceiptLogo(imageId);
+
+      if (previous && previous !== imageId) {
+        await deleteImageIfUnused(previous);
+      }
+
+      res.json({
+        success: true,
+        data: { imageId, url: getImageUrl(imageId) },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.delete('/logo', requirePermission('printers:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const previous = await setReceiptLogo(null);
+
+    if (!previous) {
+      return res.status(404).json({
+        success: false,
+        message: 'No receipt logo set',
+      });
+    }
+
+    await deleteImageIfUnused(previous);
+
+    res.json({
+      success: true,
+      message: 'Receipt logo removed',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/printer/prep-list/print:
+ *   post:
+ *     summary: Print the production/prep list for a pickup date or date range
+ *     tags: [Printer]
+ *     parameters:
+ *       - $ref: '#/components/parameters/PrinterName'
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *         description: Single pickup date (YYYY-MM-DD). Either date or from is required.
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *     responses:
+ *       200:
+ *         description: Print job sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     printed:
+ *                       type: boolean
+ *                     devicePath:
+ *                       type: string
+ *                     from:
+ *                       type: string
+ *                       format: date
+ *                     to:
+ *                       type: string
+ *                       format: date
+ *                     job:
+ *                       $ref: '#/components/schemas/PrintJob'
+ *             example:
+ *               success: true
+ *               data:
+ *                 printed: true
+ *                 devicePath: "/dev/usb/lp0"
+ *                 from: "2026-01-10"
+ *                 to: "2026-01-10"
+ *       202:
+ *         description: The first attempt failed; the job is queued for a retry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintResult'
+ *       502:
+ *         description: Printing failed and no attempts are left
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintFailed'
+ *       400:
+ *         description: Validation error
+ */
+router.post('/prep-list/print', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { from, to } = parseQuery(prepListQuerySchema, req.query);
+    const target = await getPrintTarget('kitchen', req.query);
+    const prepList = await getPrepList(from, to);
+
+    const job = await submitPrintJob({
+      kind: 'prep_list',
+      description: from === to ? `Prep list ${from}` : `Prep list ${from} - ${to}`,
+      target,
+      content: buildPrepListOutput(prepList, { columns: target.columns, codePage: target.codePage }),
+      createdBy: req.auth?.name,
+    });
+
+    sendPrintJobResult(res, job, { from, to });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/printer/jobs:
+ *   get:
+ *     summary: Get print job history (newest first)
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, printing, done, failed, cancelled]
+ *         required: false
+ *       - in: query
+ *         name: orderId
+ *         schema:
+ *           type: integer
+ *         required: false
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *         required: false
+ *     responses:
+ *       200:
+ *         description: List of print jobs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PrintJob'
+ *       400:
+ *         description: Validation error
+ */
+router.get('/jobs', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const filters = parseQuery(listPrintJobsQuerySchema, req.query);
+    const jobs = await listPrintJobs(filters);
+
+    res.json({
+      success: true,
+      data: jobs.map(summarizePrintJob),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/printer/jobs/{id}:
+ *   get:
+ *     summary: Get a print job by ID
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Print job ID
+ *     responses:
+ *       200:
+ *         description: Print job details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/PrintJob'
+ *       404:
+ *         description: Print job not found
+ */
+router.get('/jobs/:id', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseJobId(req.params.id);
+
+    const job = await db.query.printJobs.findFirst({
+      where: eq(printJobs.id, id),
+    });
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Print job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: summarizePrintJob(job),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/printer/jobs/{id}/retry:
+ *   post:
+ *     summary: Retry a failed or cancelled print job
+ *     description: Starts a fresh set of attempts and tries to print right away.
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Print job ID
+ *     responses:
+ *       200:
+ *         description: Printed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintResult'
+ *       202:
+ *         description: Still failing; queued for another retry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintResult'
+ *       404:
+ *         description: Print job not found
+ *       409:
+ *         description: Only failed or cancelled jobs can be retried
+ *       502:
+ *         description: Printing failed and no attempts are left
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintFailed'
+ */
+router.post('/jobs/:id/retry', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseJobId(req.params.id);
+
+    const existing = await db.query.printJobs.findFirst({
+      where: eq(printJobs.id, id),
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Print job not found',
+      });
+    }
+
+    const job = await retryPrintJob(id);
+
+    if (!job) {
+      return res.status(409).json({
+        success: false,
+        message: `Cannot retry a print job that is ${existing.status}`,
+      });
+    }
+
+    sendPrintJobResult(res, job, {});
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/printer/jobs/{id}/cancel:
+ *   post:
+ *     summary: Cancel a queued or failed print job
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Print job ID
+ *     responses:
+ *       200:
+ *         description: Print job cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/PrintJob'
+ *       404:
+ *         description: Print job not found
+ *       409:
+ *         description: The job is printing or already finished
+ */
+router.post('/jobs/:id/cancel', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseJobId(req.params.id);
+
+    const existing = await db.query.printJobs.findFirst({
+      where: eq(printJobs.id, id),
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Print job not found',
+      });
+    }
+
+    const job = await cancelPrintJob(id);
+
+    if (!job) {
+      return res.status(409).json({
+        success: false,
+        message: `Cannot cancel a print job that is ${existing.status}`,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: summarizePrintJob(job),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/printer/jobs/{id}/reprint:
+ *   post:
+ *     summary: Print the exact bytes of an earlier job again
+ *     description: Creates a new job (with reprintOf set), even if the order has changed since.
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Print job ID
+ *       - in: query
+ *         name: printer
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Name of a registered printer (defaults to the printer of the original job)
+ *     responses:
+ *       200:
+ *         description: Printed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintResult'
+ *       202:
+ *         description: The first attempt failed; the new job is queued for a retry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintResult'
+ *       404:
+ *         description: Print job not found
+ *       502:
+ *         description: Printing failed and no attempts are left
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrintFailed'
+ */
+router.post('/jobs/:id/reprint', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseJobId(req.params.id);
+
+    const original = await db.query.printJobs.findFirst({
+      where: eq(printJobs.id, id),
+    });
+
+    if (!original) {
+      return res.status(404).json({
+        success: false,
+        message: 'Print job not found',
+      });
+    }
+
+    const { printer } = parseQuery(printTargetQuerySchema, req.query);
+    const target = printer ? await getPrintTarget('receipt', req.query) : undefined;
+
+    const job = await reprintJob(original, req.auth?.name, target);
+
+    sendPrintJobResult(res, job, {});
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,409 @@
+import { Router, Request, Response, NextFunction, Router as ExpressRouter } from 'express';
+import { and, asc, eq, ne } from 'drizzle-orm';
+import { db } from '../db';
+import { printers } from '../db/schema';
+import { validateRequest, ValidationError } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
+import {
+  createPrinterSchema,
+  updatePrinterSchema,
+  CreatePrinterInput,
+  UpdatePrinterInput,
+} from '../validators';
+
+const router: ExpressRouter = Router();
+
+function parsePrinterId(value: string): number {
+  const id = parseInt(value, 10);
+
+  if (isNaN(id)) {
+    throw new ValidationError(400, { id: 'Invalid printer ID' });
+  }
+
+  return id;
+}
+
+async function isNameTaken(name: string, exceptId?: number): Promise<boolean> {
+  const existing = await db.query.printers.findFirst({
+    where: exceptId === undefined
+      ? eq(printers.name, name)
+      : and(eq(printers.name, name), ne(printers.id, exceptId)),
+  });
+
+  return existing !== undefined;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PrinterInput:
+ *       type: object
+ *       required: [name, transport]
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Unique name used to pick the printer, e.g. "counter" or "kitchen"
+ *         transport:
+ *           type: string
+ *           enum: [device, tcp]
+ *         devicePath:
+ *           type: string
+ *           nullable: true
+ *           description: Device file, required for device printers (e.g. /dev/usb/lp0)
+ *         host:
+ *           type: string
+ *           nullable: true
+ *           description: Host name or IP, required for tcp printers
+ *         port:
+ *           type: integer
+ *           nullable: true
+ *           description: Raw TCP port (defaults to 9100)
+ *         paperWidth:
+ *           type: integer
+ *           enum: [58, 80]
+ *           default: 80
+ *           description: Paper width in mm
+ *         role:
+ *           type: string
+ *           enum: [receipt, kitchen, label]
+ *           default: receipt
+ *           description: Prints go to the first active printer with the matching role unless a printer is named
+ *         codePage:
+ *           type: string
+ *           enum: [cp437, wpc1252]
+ *           default: cp437
+ *           description: Character set selected with ESC t. Characters outside it are transliterated, emoji are dropped.
+ *         active:
+ *           type: boolean
+ *           default: true
+ *     Printer:
+ *       allOf:
+ *         - $ref: '#/components/schemas/PrinterInput'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: integer
+ *             createdAt:
+ *               type: string
+ *               format: date-time
+ * /api/printer/printers:
+ *   get:
+ *     summary: Get all registered printers
+ *     tags: [Printer]
+ *     responses:
+ *       200:
+ *         description: List of printers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Printer'
+ *             example:
+ *               success: true
+ *               data:
+ *                 - id: 1
+ *                   name: "counter"
+ *                   transport: "device"
+ *                   devicePath: "/dev/usb/lp0"
+ *                   host: null
+ *                   port: null
+ *                   paperWidth: 58
+ *                   role: "receipt"
+ *                   codePage: "cp437"
+ *                   active: true
+ *                   createdAt: "2026-01-04T00:00:00.000Z"
+ *                 - id: 2
+ *                   name: "kitchen"
+ *                   transport: "tcp"
+ *                   devicePath: null
+ *                   host: "192.168.1.50"
+ *                   port: 9100
+ *                   paperWidth: 80
+ *                   role: "kitchen"
+ *                   codePage: "wpc1252"
+ *                   active: true
+ *                   createdAt: "2026-01-04T00:00:00.000Z"
+ */
+router.get('/', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const allPrinters = await db.query.printers.findMany({
+      orderBy: [asc(printers.name)],
+    });
+
+    res.json({
+      success: true,
+      data: allPrinters,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/printer/printers/{id}:
+ *   get:
+ *     summary: Get a printer by ID
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Printer ID
+ *     responses:
+ *       200:
+ *         description: Printer details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Printer'
+ *       404:
+ *         description: Printer not found
+ */
+router.get('/:id', requirePermission('printer:print'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parsePrinterId(req.params.id);
+
+    const printer = await db.query.printers.findFirst({
+      where: eq(printers.id, id),
+    });
+
+    if (!printer) {
+      return res.status(404).json({
+        success: false,
+        message: 'Printer not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: printer,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/printer/printers:
+ *   post:
+ *     summary: Register a printer
+ *     tags: [Printer]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PrinterInput'
+ *           example:
+ *             name: "kitchen"
+ *             transport: "tcp"
+ *             host: "192.168.1.50"
+ *             port: 9100
+ *             paperWidth: 80
+ *             role: "kitchen"
+ *     responses:
+ *       201:
+ *         description: Printer registered successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Printer'
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: A printer with this name already exists
+ */
+router.post(
+  '/',
+  requirePermission('printers:manage'),
+  validateRequest(createPrinterSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const data: CreatePrinterInput = req.body;
+
+      if (await isNameTaken(data.name)) {
+        return res.status(409).json({
+          success: false,
+          message: 'A printer with this name already exists',
+        });
+      }
+
+      const result = await db
+        .insert(printers)
+        .values(data)
+        .returning();
+
+      res.status(201).json({
+        success: true,
+        data: result[0],
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/printer/printers/{id}:
+ *   put:
+ *     summary: Update a printer
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Printer ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PrinterInput'
+ *           example:
+ *             active: false
+ *     responses:
+ *       200:
+ *         description: Printer updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Printer'
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Printer not found
+ *       409:
+ *         description: A printer with this name already exists
+ */
+router.put(
+  '/:id',
+  requirePermission('printers:manage'),
+  validateRequest(updatePrinterSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parsePrinterId(req.params.id);
+      const data: UpdatePrinterInput = req.body;
+
+      if (Object.keys(data).length === 0) {
+        throw new ValidationError(400, { body: 'No fields to update' });
+      }
+
+      const existing = await db.query.printers.findFirst({
+        where: eq(printers.id, id),
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: 'Printer not found',
+        });
+      }
+
+      // The transport fields must still add up after the change
+      const merged = createPrinterSchema.safeParse({ ...existing, ...data });
+      if (!merged.success) {
+        throw new ValidationError(400, merged.error.issues);
+      }
+
+      if (data.name && (await isNameTaken(data.name, id))) {
+        return res.status(409).json({
+          success: false,
+          message: 'A printer with this name already exists',
+        });
+      }
+
+      const result = await db
+        .update(printers)
+        .set(data)
+        .where(eq(printers.id, id))
+        .returning();
+
+      res.json({
+        success: true,
+        data: result[0],
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/printer/printers/{id}:
+ *   delete:
+ *     summary: Remove a printer
+ *     description: Print jobs sent to it are kept in the history.
+ *     tags: [Printer]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Printer ID
+ *     responses:
+ *       200:
+ *         description: Printer removed successfully
+ *       404:
+ *         description: Printer not found
+ */
+router.delete('/:id', requirePermission('printers:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parsePrinterId(req.params.id);
+
+    const result = await db
+      .delete(printers)
+      .where(eq(printers.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Printer not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Printer removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
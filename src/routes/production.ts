@@ -0,0 +1,149 @@
+import { Router, Request, Response, NextFunction, Router as ExpressRouter } from 'express';
+import { parseQuery } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
+import { prepListQuerySchema } from '../validators';
+import { getPrepList } from '../services/prepList';
+
+const router: ExpressRouter = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PrepList:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: string
+ *           format: date
+ *         to:
+ *           type: string
+ *           format: date
+ *         products:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               productId:
+ *                 type: integer
+ *               name:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ *               orderCount:
+ *                 type: integer
+ *               notes:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     note:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                     orders:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           orderId:
+ *                             type: integer
+ *                           customerName:
+ *                             type: string
+ *         customItems:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               orderId:
+ *                 type: integer
+ *               customerName:
+ *                 type: string
+ *               pickupDate:
+ *                 type: string
+ *                 format: date
+ *               name:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *                 nullable: true
+ * /api/production/prep-list:
+ *   get:
+ *     summary: Get the production/prep list for a pickup date or date range
+ *     description: Aggregates items of all non-cancelled orders picked up in the range into per-product quantities.
+ *     tags: [Production]
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *         description: Single pickup date (YYYY-MM-DD). Either date or from is required.
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *         description: First pickup date of the range (YYYY-MM-DD)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         required: false
+ *         description: Last pickup date of the range (YYYY-MM-DD), defaults to from
+ *     responses:
+ *       200:
+ *         description: Prep list
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/PrepList'
+ *             example:
+ *               success: true
+ *               data:
+ *                 from: "2026-01-10"
+ *                 to: "2026-01-10"
+ *                 products:
+ *                   - productId: 1
+ *                     name: "Bolu Pandan"
+ *                     quantity: 5
+ *                     orderCount: 3
+ *                     notes:
+ *                       - note: "Tulisan HBD"
+ *                         quantity: 2
+ *                         orders:
+ *                           - orderId: 10
+ *                             customerName: "Alice"
+ *                 customItems:
+ *                   - orderId: 11
+ *                     customerName: "Bob"
+ *                     pickupDate: "2026-01-10"
+ *                     name: "Kue tart 2 tingkat"
+ *                     notes: null
+ *       400:
+ *         description: Validation error
+ */
+router.get('/prep-list', requirePermission('production:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { from, to } = parseQuery(prepListQuerySchema, req.query);
+    const prepList = await getPrepList(from, to);
+
+    res.json({
+      success: true,
+      data: prepList,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
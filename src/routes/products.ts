@@ -3,9 +3,11 @@ import { db } from '../db';
 import { products } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { validateRequest, ValidationError } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
 import { createProductSchema, updateProductSchema, CreateProductInput, UpdateProductInput } from '../validators';
-import { uploadMiddleware } from '../middleware/upload';
-import { uploadImage, deleteImage } from '../services/minio';
+import { sanitizeImageUpload, uploadMiddleware } from '../middleware/upload';
+import { uploadImage, imageExists } from '../services/minio';
+import { deleteImageIfUnused } from '../services/images';
 
 const router: ExpressRouter = Router();
 
@@ -56,7 +58,7 @@ const router: ExpressRouter = Router();
  *                   imageId: null
  *                   createdAt: "2026-01-04T00:00:00.000Z"
  */
-router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', requirePermission('products:read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const allProducts = await db.query.products.findMany();
     res.json({
@@ -135,7 +137,7 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
  *               success: false
  *               message: "Product not found"
  */
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', requirePermission('products:read'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = parseInt(req.params.id, 10);
 
@@ -268,14 +270,16 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
  */
 router.post(
   '/',
+  requirePermission('products:write'),
   uploadMiddleware.single('image'),
+  sanitizeImageUpload,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       let imageId: string | undefined;
 
       // Handle file upload
       if (req.file) {
-        imageId = await uploadImage(req.file.originalname, req.file.buffer, req.file.mimetype);
+        imageId = await uploadImage(req.file.buffer, req.file.mimetype);
       }
 
       // Get data from form data or JSON
@@ -287,7 +291,7 @@ router.post(
       // Validate required fields
       if (!name || price === undefined || isNaN(price)) {
         if (imageId) {
-          await deleteImage(imageId);
+          await deleteImageIfUnused(imageId);
         }
         return res.status(400).json({
           success: false,
@@ -301,7 +305,7 @@ router.post(
 
       if (price <= 0) {
         if (imageId) {
-          await deleteImage(imageId);
+          await deleteImageIfUnused(imageId);
         }
         return res.status(400).json({
           success: false,
@@ -310,6 +314,10 @@ router.post(
         });
       }
 
+      if (!imageId && providedImageId && !(await imageExists(providedImageId))) {
+        throw new ValidationError(400, { imageId: 'Image not found' });
+      }
+
       const finalImageId = imageId || providedImageId;
 
       const result = await db
@@ -360,6 +368,8 @@ router.post(
  *                 type: integer
  *               imageId:
  *                 type: string
+ *                 nullable: true
+ *                 description: An uploaded image (see POST /api/images), or null to remove the photo
  *           example:
  *             description: "Updated description"
  *     responses:
@@ -398,6 +408,7 @@ router.post(
  */
 router.put(
   '/:id',
+  requirePermission('products:write'),
   validateRequest(updateProductSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -409,12 +420,28 @@ router.put(
 
       const data: UpdateProductInput = req.body;
 
+      const existing = await db.query.products.findFirst({
+        where: eq(products.id, id),
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: 'Product not found',
+        });
+      }
+
+      if (data.imageId && data.imageId !== existing.imageId && !(await imageExists(data.imageId))) {
+        throw new ValidationError(400, { imageId: 'Image not found' });
+      }
+
       const result = await db
         .update(products)
         .set(data)
         .where(eq(products.id, id))
         .returning();
 
+      // Deleted since it was looked up
       if (result.length === 0) {
         return res.status(404).json({
           success: false,
@@ -422,6 +449,103 @@ router.put(
         });
       }
 
+      if (existing.imageId && result[0].imageId !== existing.imageId) {
+        await deleteImageIfUnused(existing.imageId);
+      }
+
+      res.json({
+        success: true,
+        data: result[0],
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/products/{id}/image:
+ *   put:
+ *     summary: Replace a product's photo
+ *     description: Uploads the new photo, then deletes the previous one unless something else still uses it.
+ *     tags: [Products]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Product ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [image]
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: PNG, JPEG, GIF or WebP, max 5MB
+ *     responses:
+ *       200:
+ *         description: Photo replaced; returns the updated product
+ *       400:
+ *         description: Missing file or not an image
+ *       404:
+ *         description: Product not found
+ */
+router.put(
+  '/:id/image',
+  requirePermission('products:write'),
+  uploadMiddleware.single('image'),
+  sanitizeImageUpload,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      if (isNaN(id)) {
+        throw new ValidationError(400, { id: 'Invalid product ID' });
+      }
+
+      if (!req.file) {
+        throw new ValidationError(400, { image: 'Image file is required' });
+      }
+
+      const existing = await db.query.products.findFirst({
+        where: eq(products.id, id),
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: 'Product not found',
+        });
+      }
+
+      const imageId = await uploadImage(req.file.buffer, req.file.mimetype);
+
+      const result = await db
+        .update(products)
+        .set({ imageId })
+        .where(eq(products.id, id))
+        .returning();
+
+      // Deleted since it was looked up: the new upload belongs to nothing
+      if (result.length === 0) {
+        await deleteImageIfUnused(imageId);
+        return res.status(404).json({
+          success: false,
+          message: 'Product not found',
+        });
+      }
+
+      if (existing.imageId && existing.imageId !== imageId) {
+        await deleteImageIfUnused(existing.imageId);
+      }
+
       res.json({
         success: true,
         data: result[0],
@@ -466,7 +590,7 @@ router.put(
  *       404:
  *         description: Product not found
  */
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', requirePermission('products:delete'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = parseInt(req.params.id, 10);
 
@@ -491,14 +615,9 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction) =>
       });
     }
 
-    // Delete image from MinIO if it exists
+    // Delete image from MinIO unless another product uses it too
     if (product?.imageId) {
-      try {
-        await deleteImage(product.imageId);
-      } catch (error) {
-        console.error('Error deleting image from MinIO:', error);
-        // Don't fail the API call if image deletion fails
-      }
+      await deleteImageIfUnused(product.imageId);
     }
 
     res.json({
@@ -0,0 +1,279 @@
+import { Router, Request, Response, NextFunction, Router as ExpressRouter } from 'express';
+import { parseQuery } from '../middleware/validation';
+import { requirePermission } from '../middleware/auth';
+import {
+  reportQuerySchema,
+  revenueReportQuerySchema,
+  topProductsReportQuerySchema,
+} from '../validators';
+import {
+  getAverageOrderValue,
+  getCustomItemShare,
+  getRevenueByPeriod,
+  getTopProducts,
+} from '../services/reports';
+
+const router: ExpressRouter = Router();
+
+// Sales figures are for the owner only
+router.use(requirePermission('reports:read'));
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     ReportFrom:
+ *       in: query
+ *       name: from
+ *       schema:
+ *         type: string
+ *         format: date
+ *       required: true
+ *       description: First day of the report (YYYY-MM-DD, inclusive, in the report time zone)
+ *     ReportTo:
+ *       in: query
+ *       name: to
+ *       schema:
+ *         type: string
+ *         format: date
+ *       required: true
+ *       description: Last day of the report (YYYY-MM-DD, inclusive, in the report time zone)
+ *     ReportTimezone:
+ *       in: query
+ *       name: timezone
+ *       schema:
+ *         type: string
+ *         default: Asia/Jakarta
+ *       required: false
+ *       description: IANA time zone used to assign orders to days (defaults to REPORT_TIMEZONE)
+ * /api/reports/revenue:
+ *   get:
+ *     summary: Revenue per day, week or month
+ *     description: Cancelled orders are excluded. Revenue includes order-level discounts and fees.
+ *     tags: [Reports]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportFrom'
+ *       - $ref: '#/components/parameters/ReportTo'
+ *       - $ref: '#/components/parameters/ReportTimezone'
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *         required: false
+ *     responses:
+ *       200:
+ *         description: Revenue per period (periods without orders are omitted)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       period:
+ *                         type: string
+ *                         format: date
+ *                         description: First day of the period
+ *                       orderCount:
+ *                         type: integer
+ *                       revenue:
+ *                         type: integer
+ *             example:
+ *               success: true
+ *               data:
+ *                 - period: "2026-01-04"
+ *                   orderCount: 12
+ *                   revenue: 2350000
+ *       400:
+ *         description: Validation error
+ */
+router.get('/revenue', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { groupBy, ...range } = parseQuery(revenueReportQuerySchema, req.query);
+    const data = await getRevenueByPeriod(range, groupBy);
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/reports/top-products:
+ *   get:
+ *     summary: Best selling products by quantity or revenue
+ *     description: Revenue is based on the price at sale, before order-level discounts and fees.
+ *     tags: [Reports]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportFrom'
+ *       - $ref: '#/components/parameters/ReportTo'
+ *       - $ref: '#/components/parameters/ReportTimezone'
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [quantity, revenue]
+ *           default: quantity
+ *         required: false
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *         required: false
+ *     responses:
+ *       200:
+ *         description: Top products
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       productId:
+ *                         type: integer
+ *                       name:
+ *                         type: string
+ *                       quantity:
+ *                         type: integer
+ *                       revenue:
+ *                         type: integer
+ *                       orderCount:
+ *                         type: integer
+ *       400:
+ *         description: Validation error
+ */
+router.get('/top-products', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { sortBy, limit, ...range } = parseQuery(topProductsReportQuerySchema, req.query);
+    const data = await getTopProducts(range, sortBy, limit);
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/reports/custom-items:
+ *   get:
+ *     summary: Share of item revenue coming from custom items
+ *     tags: [Reports]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportFrom'
+ *       - $ref: '#/components/parameters/ReportTo'
+ *       - $ref: '#/components/parameters/ReportTimezone'
+ *     responses:
+ *       200:
+ *         description: Custom item revenue share
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     customRevenue:
+ *                       type: integer
+ *                     itemRevenue:
+ *                       type: integer
+ *                       description: Revenue of all items (product and custom)
+ *                     customItemCount:
+ *                       type: integer
+ *                     share:
+ *                       type: number
+ *                       description: customRevenue / itemRevenue (0..1)
+ *       400:
+ *         description: Validation error
+ */
+router.get('/custom-items', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const range = parseQuery(reportQuerySchema, req.query);
+    const data = await getCustomItemShare(range);
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/reports/average-order-value:
+ *   get:
+ *     summary: Average order value
+ *     tags: [Reports]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ReportFrom'
+ *       - $ref: '#/components/parameters/ReportTo'
+ *       - $ref: '#/components/parameters/ReportTimezone'
+ *     responses:
+ *       200:
+ *         description: Order count, revenue and average order value
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               required: [success, data]
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     orderCount:
+ *                       type: integer
+ *                     revenue:
+ *                       type: integer
+ *                     averageOrderValue:
+ *                       type: integer
+ *       400:
+ *         description: Validation error
+ */
+router.get('/average-order-value', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const range = parseQuery(reportQuerySchema, req.query);
+    const data = await getAverageOrderValue(range);
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+
+import { backfillCustomersFromOrders } from '../services/customers';
+import { closeConnection } from '../db';
+
+// Link existing orders to customer records by matching (normalised) customer names
+
+backfillCustomersFromOrders()
+  .then(({ created, linked }) => {
+    console.log(`✓ Created ${created} customers and linked ${linked} orders`);
+  })
+  .catch((error) => {
+    console.error('✗ Failed to backfill customers:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeConnection());
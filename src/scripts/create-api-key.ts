@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+
+import { createApiKey } from '../services/auth';
+import { createApiKeySchema } from '../validators';
+import { closeConnection } from '../db';
+
+// Create an API key for a device or integration:
+//   pnpm auth:create-api-key "Counter tablet" [role]
+
+const [name, role] = process.argv.slice(2);
+const parsed = createApiKeySchema.safeParse({ name, role });
+
+if (!parsed.success) {
+  console.error('Usage: pnpm auth:create-api-key <name> [owner|cashier|kitchen]');
+  for (const issue of parsed.error.issues) {
+    console.error(`✗ ${issue.path.join('.')}: ${issue.message}`);
+  }
+  process.exitCode = 1;
+  closeConnection();
+} else {
+  createApiKey(parsed.data.name, parsed.data.role)
+    .then((apiKey) => {
+      console.log(`✓ Created ${apiKey.role} API key "${apiKey.name}" (id ${apiKey.id})`);
+      console.log(`  ${apiKey.key}`);
+      console.log('  Store it now; it cannot be shown again.');
+    })
+    .catch((error) => {
+      console.error('✗ Failed to create API key:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => closeConnection());
+}
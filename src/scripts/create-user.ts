@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+
+import { createUser } from '../services/auth';
+import { createUserSchema } from '../validators';
+import { closeConnection } from '../db';
+
+// Create the first staff account (or any other) from the command line:
+//   pnpm auth:create-user <username> <name> <password> [role]
+// The role defaults to owner, since this is how the first account gets created.
+
+const [username, name, password, role = 'owner'] = process.argv.slice(2);
+const parsed = createUserSchema.safeParse({ username, name, password, role });
+
+if (!parsed.success) {
+  console.error('Usage: pnpm auth:create-user <username> <name> <password> [owner|cashier|kitchen]');
+  for (const issue of parsed.error.issues) {
+    console.error(`✗ ${issue.path.join('.')}: ${issue.message}`);
+  }
+  process.exitCode = 1;
+  closeConnection();
+} else {
+  createUser(parsed.data)
+    .then((user) => {
+      console.log(`✓ Created ${user.role} ${user.username} (id ${user.id})`);
+    })
+    .catch((error) => {
+      console.error('✗ Failed to create user:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => closeConnection());
+}
@@ -0,0 +1,184 @@
+import { createHash, randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { and, eq, gt, isNull, lte } from 'drizzle-orm';
+import { db } from '../db';
+import { apiKeys, sessions, users } from '../db/schema';
+import { isRole, Role } from './permissions';
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+
+// Checked against when there is no such user, so an unknown username takes as long
+// as a wrong password and doesn't give away which usernames exist
+const DUMMY_PASSWORD_HASH = `scrypt$${'00'.repeat(16)}$${'00'.repeat(PASSWORD_KEY_LENGTH)}`;
+const SESSION_TOKEN_PREFIX = 'lnqs_';
+const API_KEY_PREFIX = 'lnqk_';
+
+export type AuthContext =
+  | { type: 'user'; userId: number; name: string; role: Role; sessionId: number }
+  | { type: 'apiKey'; apiKeyId: number; name: string; role: Role };
+
+function sessionTtlMs(): number {
+  const hours = parseInt(process.env.SESSION_TTL_HOURS || '12', 10);
+  return (isNaN(hours) || hours <= 0 ? 12 : hours) * 60 * 60 * 1000;
+}
+
+// Format: scrypt$<salt hex>$<hash hex>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Tokens are only ever stored as a sha256 hash
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function generateToken(prefix: string): string {
+  return prefix + randomBytes(32).toString('base64url');
+}
+
+export async function createSession(userId: number): Promise<{ token: string; expiresAt: Date }> {
+  const token = generateToken(SESSION_TOKEN_PREFIX);
+  const expiresAt = new Date(Date.now() + sessionTtlMs());
+
+  await db.insert(sessions).values({
+    userId,
+    tokenHash: hashToken(token),
+    expiresAt,
+  });
+
+  // Opportunistically clean up expired sessions of this user
+  await db
+    .delete(sessions)
+    .where(and(eq(sessions.userId, userId), lte(sessions.expiresAt, new Date())));
+
+  return { token, expiresAt };
+}
+
+export async function deleteSession(sessionId: number): Promise<void> {
+  await db.delete(sessions).where(eq(sessions.id, sessionId));
+}
+
+export async function login(
+  username: string,
+  password: string
+): Promise<{ token: string; expiresAt: Date; user: { id: number; username: string; name: string; role: Role } } | null> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.username, username),
+  });
+
+  const passwordOk = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+
+  if (!user || !passwordOk || !user.active || !isRole(user.role)) {
+    return null;
+  }
+
+  const session = await createSession(user.id);
+  return {
+    ...session,
+    user: { id: user.id, username: user.username, name: user.name, role: user.role },
+  };
+}
+
+export async function createUser(data: { username: string; name: string; password: string; role: Role }) {
+  const result = await db
+    .insert(users)
+    .values({
+      username: data.username,
+      name: data.name,
+      passwordHash: await hashPassword(data.password),
+      role: data.role,
+    })
+    .returning({
+      id: users.id,
+      username: users.username,
+      name: users.name,
+      role: users.role,
+      active: users.active,
+      createdAt: users.createdAt,
+    });
+
+  return result[0];
+}
+
+export async function createApiKey(name: string, role: Role) {
+  const key = generateToken(API_KEY_PREFIX);
+
+  const result = await db
+    .insert(apiKeys)
+    .values({
+      name,
+      keyHash: hashToken(key),
+      keyPrefix: key.slice(0, 12),
+      role,
+    })
+    .returning({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      keyPrefix: apiKeys.keyPrefix,
+      role: apiKeys.role,
+      createdAt: apiKeys.createdAt,
+    });
+
+  // The plain key is only returned once, at creation
+  return { ...result[0], key };
+}
+
+/**
+ * Resolve a bearer token or API key to the caller, or null if it is unknown,
+ * expired, revoked, has no valid role or belongs to a deactivated user.
+ */
+export async function authenticateToken(token: string): Promise<AuthContext | null> {
+  const tokenHash = hashToken(token);
+
+  if (token.startsWith(API_KEY_PREFIX)) {
+    const apiKey = await db.query.apiKeys.findFirst({
+      where: and(eq(apiKeys.keyHash, tokenHash), isNull(apiKeys.revokedAt)),
+    });
+
+    if (!apiKey || !isRole(apiKey.role)) {
+      return null;
+    }
+
+    await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, apiKey.id));
+
+    return { type: 'apiKey', apiKeyId: apiKey.id, name: apiKey.name, role: apiKey.role };
+  }
+
+  const session = await db.query.sessions.findFirst({
+    where: and(eq(sessions.tokenHash, tokenHash), gt(sessions.expiresAt, new Date())),
+    with: {
+      user: true,
+    },
+  });
+
+  if (!session || !session.user.active || !isRole(session.user.role)) {
+    return null;
+  }
+
+  return {
+    type: 'user',
+    userId: session.user.id,
+    name: session.user.name,
+    role: session.user.role,
+    sessionId: session.id,
+  };
+}
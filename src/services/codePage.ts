@@ -0,0 +1,199 @@
+// Text encoding for ESC/POS printers. Printers only know single-byte code pages,
+// so every character is either printed from the selected page, transliterated
+// to something close (curly quotes, dashes, accents), stripped (emoji) or
+// replaced with '?'. Never sends control characters from user input.
+
+export const CODE_PAGES = ['cp437', 'wpc1252'] as const;
+
+export type CodePage = (typeof CODE_PAGES)[number];
+
+export const DEFAULT_CODE_PAGE: CodePage = 'cp437';
+
+// ESC t n
+const CODE_PAGE_NUMBERS: Record<CodePage, number> = {
+  cp437: 0, // PC437 (USA, Standard Europe), the power-on default
+  wpc1252: 16, // Windows-1252 (Latin 1)
+};
+
+// Characters 0x80-0xFF of each page; '\0' marks unused positions
+const HIGH_CHARACTERS: Record<CodePage, string> = {
+  cp437:
+    'ÇüéâäàåçêëèïîìÄÅ' +
+    'ÉæÆôöòûùÿÖÜ¢£¥₧ƒ' +
+    'áíóúñÑªº¿⌐¬½¼¡«»' +
+    '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+    '└┴┬├─┼╞╟╚╔╩╦╠═╬╧' +
+    '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+    'αßΓπΣσµτΦΘΩδ∞φε∩' +
+    '≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+  wpc1252:
+    '€\0‚ƒ„…†‡ˆ‰Š‹Œ\0Ž\0' +
+    '\0‘’“”•–—˜™š›œ\0žŸ' +
+    Array.from({ length: 96 }, (_, i) => String.fromCharCode(0xa0 + i)).join(''),
+};
+
+// Tried before falling back to the decomposed form, for characters the page lacks
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '‚': "'",
+  '‛': "'",
+  '′': "'",
+  '“': '"',
+  '”': '"',
+  '„': '"',
+  '″': '"',
+  '«': '"',
+  '»': '"',
+  '–': '-',
+  '—': '-',
+  '‐': '-',
+  '‑': '-',
+  '−': '-',
+  '…': '...',
+  '•': '*',
+  '·': '.',
+  '€': 'EUR',
+  '™': 'TM',
+  '©': '(c)',
+  '®': '(R)',
+  '×': 'x',
+  '÷': '/',
+  '⁄': '/',
+  '½': '1/2',
+  '¼': '1/4',
+  '¾': '3/4',
+  '°': 'o',
+  'ß': 'ss',
+  'Æ': 'AE',
+  'æ': 'ae',
+  'Œ': 'OE',
+  'œ': 'oe',
+  'Ø': 'O',
+  'ø': 'o',
+  'Đ': 'D',
+  'đ': 'd',
+  'Ł': 'L',
+  'ł': 'l',
+  '\u00a0': ' ', // no-break space
+  '\u2007': ' ', // figure space
+  '\u2009': ' ', // thin space
+  '\u202f': ' ', // narrow no-break space
+  '\t': ' ',
+  '\n': ' ',
+  '\r': '',
+};
+
+// Emoji and the invisible characters that glue them together
+const EMOJI = /[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200d\ufe0e\ufe0f\u20e3]/u;
+const COMBINING_MARKS = /\p{M}/gu;
+
+type CodePageTable = {
+  encode: Map<string, number>;
+  decode: string[];
+};
+
+const tables = new Map<CodePage, CodePageTable>();
+
+function getTable(codePage: CodePage): CodePageTable {
+  let table = tables.get(codePage);
+
+  if (!table) {
+    const decode: string[] = [];
+    const encode = new Map<string, number>();
+
+    for (let byte = 0x20; byte < 0x7f; byte++) {
+      decode[byte] = String.fromCharCode(byte);
+    }
+    [...HIGH_CHARACTERS[codePage]].forEach((char, i) => {
+      if (char !== '\0') decode[0x80 + i] = char;
+    });
+    decode.forEach((char, byte) => {
+      if (char !== undefined) encode.set(char, byte);
+    });
+
+    table = { encode, decode };
+    tables.set(codePage, table);
+  }
+
+  return table;
+}
+
+export function isCodePage(value: unknown): value is CodePage {
+  return typeof value === 'string' && (CODE_PAGES as readonly string[]).includes(value);
+}
+
+export function getCodePageNumber(codePage: CodePage): number {
+  return CODE_PAGE_NUMBERS[codePage];
+}
+
+export function getCodePageByNumber(n: number): CodePage | undefined {
+  return CODE_PAGES.find((codePage) => CODE_PAGE_NUMBERS[codePage] === n);
+}
+
+/**
+ * Rewrite text so that every character exists in the code page:
+ * - characters on the page are kept as they are
+ * - typographic characters become their ASCII look-alike (“ ” → ", – → -, … → ...)
+ * - accented letters lose the accent when the page doesn't have them (ő → o)
+ * - emoji are dropped, together with one space after them
+ * - anything else (other scripts, control characters) becomes '?'
+ */
+export function transliterate(text: string, codePage: CodePage): string {
+  const { encode } = getTable(codePage);
+  const fits = (value: string) => [...value].every((char) => encode.has(char));
+  let out = '';
+  let skipSpace = false;
+
+  for (const char of text.normalize('NFC')) {
+    if (skipSpace) {
+      skipSpace = false;
+      if (char === ' ') continue;
+    }
+
+    if (encode.has(char)) {
+      out += char;
+      continue;
+    }
+
+    const replacement = REPLACEMENTS[char];
+    if (replacement !== undefined && fits(replacement)) {
+      out += replacement;
+      continue;
+    }
+
+    if (EMOJI.test(char)) {
+      skipSpace = true;
+      continue;
+    }
+
+    const decomposed = char.normalize('NFKD').replace(COMBINING_MARKS, '');
+    if (decomposed.length > 0 && fits(decomposed)) {
+      out += decomposed;
+      continue;
+    }
+
+    // Decomposed forms that still need a replacement, e.g. ⅓ → 1⁄3 → 1/3
+    const stripped = [...decomposed].map((c) => REPLACEMENTS[c] ?? c).join('');
+    out += decomposed.length > 0 && fits(stripped) ? stripped : '?';
+  }
+
+  return out;
+}
+
+/**
+ * Encode text for a printer set to the code page, one byte per character.
+ */
+export function encodeText(text: string, codePage: CodePage): Buffer {
+  const { encode } = getTable(codePage);
+  const chars = [...transliterate(text, codePage)];
+  return Buffer.from(chars.map((char) => encode.get(char) ?? 0x3f));
+}
+
+/**
+ * Read printed bytes back as text, e.g. for previews.
+ */
+export function decodeText(bytes: Buffer, codePage: CodePage): string {
+  const { decode } = getTable(codePage);
+  return [...bytes].map((byte) => decode[byte] ?? '?').join('');
+}
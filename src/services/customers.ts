@@ -0,0 +1,95 @@
+import { eq, inArray, isNull } from 'drizzle-orm';
+import { db, DbClient } from '../db';
+import { customers, orders } from '../db/schema';
+import { ValidationError } from '../middleware/validation';
+import { CustomerInput } from '../validators';
+
+/**
+ * Key used to match free-text customer names: trimmed, single-spaced, lower case.
+ */
+export function normalizeCustomerName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Work out which customer an order belongs to. Accepts an existing `customerId`,
+ * inline data for a new customer, or (legacy) just a `customerName`.
+ */
+export async function resolveOrderCustomer(
+  data: {
+    customerName?: string;
+    customerId?: number | null;
+    customer?: CustomerInput;
+  },
+  client: DbClient = db
+): Promise<{ customerId: number | null; customerName: string | undefined }> {
+  if (data.customerId !== undefined && data.customerId !== null) {
+    const customer = await client.query.customers.findFirst({
+      where: eq(customers.id, data.customerId),
+    });
+
+    if (!customer) {
+      throw new ValidationError(400, { customerId: 'Customer not found' });
+    }
+
+    return { customerId: customer.id, customerName: data.customerName ?? customer.name };
+  }
+
+  if (data.customer) {
+    const created = await client.insert(customers).values(data.customer).returning();
+    return { customerId: created[0].id, customerName: data.customerName ?? created[0].name };
+  }
+
+  return { customerId: null, customerName: data.customerName };
+}
+
+/**
+ * Link orders that have no customer to a customer record with the same (normalised)
+ * name, creating customers as needed. Safe to run more than once.
+ */
+export async function backfillCustomersFromOrders(): Promise<{ created: number; linked: number }> {
+  return db.transaction(async (tx) => {
+    const unlinked = await tx
+      .select({ id: orders.id, customerName: orders.customerName })
+      .from(orders)
+      .where(isNull(orders.customerId));
+
+    const existing = await tx.select({ id: customers.id, name: customers.name }).from(customers);
+    const customerIdsByName = new Map<string, number>();
+    for (const customer of existing) {
+      const key = normalizeCustomerName(customer.name);
+      if (!customerIdsByName.has(key)) {
+        customerIdsByName.set(key, customer.id);
+      }
+    }
+
+    const orderIdsByName = new Map<string, { name: string; orderIds: number[] }>();
+    for (const order of unlinked) {
+      const key = normalizeCustomerName(order.customerName);
+      if (!key) continue;
+
+      const group = orderIdsByName.get(key) ?? { name: order.customerName.trim().replace(/\s+/g, ' '), orderIds: [] };
+      group.orderIds.push(order.id);
+      orderIdsByName.set(key, group);
+    }
+
+    let created = 0;
+    let linked = 0;
+
+    for (const [key, group] of orderIdsByName) {
+      let customerId = customerIdsByName.get(key);
+
+      if (customerId === undefined) {
+        const inserted = await tx.insert(customers).values({ name: group.name }).returning();
+        customerId = inserted[0].id;
+        customerIdsByName.set(key, customerId);
+        created++;
+      }
+
+      await tx.update(orders).set({ customerId }).where(inArray(orders.id, group.orderIds));
+      linked += group.orderIds.length;
+    }
+
+    return { created, linked };
+  });
+}
@@ -0,0 +1,292 @@
+// Shared ESC/POS building blocks for every printed document, so layouts only
+// describe what goes on the paper. Commands follow the Epson ESC/POS reference.
+
+import { encodeText, getCodePageNumber, transliterate, CodePage, DEFAULT_CODE_PAGE } from './codePage';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// ESC - n: 1 = one dot, 2 = two dots thick
+export type Underline = boolean | 1 | 2;
+
+export type BarcodeOptions = {
+  height?: number; // dots, 1-255
+  width?: number; // module width, 2-6
+  hri?: 'none' | 'above' | 'below' | 'both'; // human readable text
+};
+
+export type QrOptions = {
+  size?: number; // module size in dots, 1-16
+  errorCorrection?: 'L' | 'M' | 'Q' | 'H';
+};
+
+// 1 bit per dot, rows of Math.ceil(width / 8) bytes, most significant bit first; 1 = black
+export type RasterImage = {
+  width: number; // dots
+  height: number; // dots
+  data: Buffer;
+};
+
+const ALIGN_CODES: Record<TextAlign, number> = {
+  left: 0,
+  center: 1,
+  right: 2,
+};
+
+const HRI_CODES: Record<NonNullable<BarcodeOptions['hri']>, number> = {
+  none: 0,
+  above: 1,
+  below: 2,
+  both: 3,
+};
+
+const QR_ERROR_CORRECTION_CODES: Record<NonNullable<QrOptions['errorCorrection']>, number> = {
+  L: 48,
+  M: 49,
+  Q: 50,
+  H: 51,
+};
+
+// Byte mode capacity of a version 40 symbol at each error correction level
+const QR_MAX_BYTES: Record<NonNullable<QrOptions['errorCorrection']>, number> = {
+  L: 2953,
+  M: 2331,
+  Q: 1663,
+  H: 1273,
+};
+
+// GS v 0 limits: 65535 bytes per row, 4095 rows (most printers take far less)
+const RASTER_MAX_ROWS = 4095;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+/**
+ * GS v 0 (print raster bit image) for an image, at normal density.
+ */
+export function encodeRaster(image: RasterImage): Buffer {
+  const bytesPerRow = Math.ceil(image.width / 8);
+
+  if (bytesPerRow < 1 || image.height < 1 || image.height > RASTER_MAX_ROWS) {
+    throw new Error(`Raster images must be 1-${RASTER_MAX_ROWS} dots high and at least 1 dot wide`);
+  }
+  if (image.data.length !== bytesPerRow * image.height) {
+    throw new Error('Raster data does not match the image size');
+  }
+
+  return Buffer.concat([
+    Buffer.from([GS, 0x76, 0x30, 0, bytesPerRow & 0xff, bytesPerRow >> 8, image.height & 0xff, image.height >> 8]),
+    image.data,
+  ]);
+}
+
+/**
+ * Split text into lines of at most `width` characters, breaking at spaces where
+ * possible and inside words that are longer than a line.
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    // Leading spaces are kept as indentation of the first line
+    let current = paragraph.match(/^ */)![0].slice(0, width - 1);
+    let started = false;
+
+    for (const word of paragraph.split(' ').filter((w) => w.length > 0)) {
+      let rest = word;
+
+      if (started && current.length + 1 + rest.length <= width) {
+        current += ' ' + rest;
+        continue;
+      }
+      if (!started && current.length + rest.length <= width) {
+        current += rest;
+        started = true;
+        continue;
+      }
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      while (rest.length > width) {
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+      current = rest;
+      started = true;
+    }
+
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Builds an ESC/POS document. Every method appends to the document and returns the
+ * builder, so layouts read top to bottom:
+ *
+ *   new EscPosBuilder(48).align('center').size(2).line('LNQ').size(1).separator().cut().build()
+ */
+export class EscPosBuilder {
+  private chunks: Buffer[] = [];
+  private widthScale = 1;
+
+  // Characters per line at normal size, see getPrinterColumns()
+  constructor(
+    readonly columns: number,
+    readonly codePage: CodePage = DEFAULT_CODE_PAGE
+  ) {
+    this.init();
+  }
+
+  /**
+   * Characters per line at the current text width.
+   */
+  get lineWidth(): number {
+    return Math.max(1, Math.floor(this.columns / this.widthScale));
+  }
+
+  raw(bytes: Buffer | number[]): this {
+    this.chunks.push(Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes));
+    return this;
+  }
+
+  // ESC @: back to the printer's defaults (normal size, left aligned, no emphasis),
+  // then ESC t to select the code page again
+  init(): this {
+    this.widthScale = 1;
+    return this.raw([ESC, 0x40]).raw([ESC, 0x74, getCodePageNumber(this.codePage)]);
+  }
+
+  align(align: TextAlign): this {
+    return this.raw([ESC, 0x61, ALIGN_CODES[align]]);
+  }
+
+  bold(on: boolean = true): this {
+    return this.raw([ESC, 0x45, on ? 1 : 0]);
+  }
+
+  underline(mode: Underline = true): this {
+    const n = mode === true ? 1 : mode === false ? 0 : mode;
+    return this.raw([ESC, 0x2d, n]);
+  }
+
+  // GS !: character width and height multipliers, 1-8
+  size(width: number, height: number = width): this {
+    const w = clamp(width, 1, 8);
+    const h = clamp(height, 1, 8);
+    this.widthScale = w;
+    return this.raw([GS, 0x21, ((w - 1) << 4) | (h - 1)]);
+  }
+
+  // Text without a line break, in the code page; see transliterate()
+  text(text: string): this {
+    return this.raw(encodeText(text, this.codePage));
+  }
+
+  line(text: string = ''): this {
+    return this.text(text).raw([LF]);
+  }
+
+  // A full line of `char`, as wide as the paper at the current text size
+  separator(char: string = '-'): this {
+    return this.line(transliterate(char, this.codePage).repeat(this.lineWidth).slice(0, this.lineWidth));
+  }
+
+  /**
+   * Left text and right text on one line, the right side flush with the edge. Left
+   * text that doesn't fit wraps onto the following lines; the right text stays on the
+   * first line, or gets a line of its own if it is too wide to share one.
+   */
+  row(leftText: string, rightText: string): this {
+    const width = this.lineWidth;
+    // Measured as printed: emoji are dropped and '…' takes three columns
+    const left = transliterate(leftText, this.codePage);
+    const right = transliterate(rightText, this.codePage);
+
+    if (right.length >= width - 1) {
+      for (const part of wrapText(left, width)) {
+        this.line(part);
+      }
+      return this.line(right.padStart(width));
+    }
+
+    const [first, ...rest] = wrapText(left, width - right.length - 1);
+    this.line(first.padEnd(width - right.length) + right);
+    for (const part of rest) {
+      this.line(part);
+    }
+    return this;
+  }
+
+  feed(lines: number = 1): this {
+    return this.raw(Buffer.alloc(clamp(lines, 0, 255), LF));
+  }
+
+  // GS V: full cut, or a partial cut that leaves one point attached
+  cut(partial: boolean = false): this {
+    return this.raw([GS, 0x56, partial ? 1 : 0]);
+  }
+
+  /**
+   * CODE128 barcode (GS k, function B). `data` must be printable ASCII.
+   */
+  barcode(data: string, options: BarcodeOptions = {}): this {
+    // "{" starts a code set switch or function character, a literal one is "{{"
+    const escaped = data.replace(/\{/g, '{{');
+
+    if (data.length === 0 || !/^[\x20-\x7e]+$/.test(data) || escaped.length > 253) {
+      throw new Error('Barcode data must be 1-253 printable ASCII characters');
+    }
+
+    // "{B" selects code set B, which covers all printable ASCII
+    const payload = Buffer.from(`{B${escaped}`, 'ascii');
+
+    return this.raw([GS, 0x68, clamp(options.height ?? 80, 1, 255)])
+      .raw([GS, 0x77, clamp(options.width ?? 2, 2, 6)])
+      .raw([GS, 0x48, HRI_CODES[options.hri ?? 'below']])
+      .raw([GS, 0x6b, 73, payload.length])
+      .raw(payload)
+      .raw([LF]);
+  }
+
+  /**
+   * QR code (GS ( k, model 2): select the model, module size and error correction,
+   * store the data, then print it.
+   */
+  qr(data: string, options: QrOptions = {}): this {
+    const payload = Buffer.from(data, 'utf8');
+    const level = options.errorCorrection ?? 'M';
+
+    // Printers print nothing at all for data that doesn't fit
+    if (payload.length === 0 || payload.length > QR_MAX_BYTES[level]) {
+      throw new Error(`QR data must be 1-${QR_MAX_BYTES[level]} bytes at error correction ${level}`);
+    }
+
+    const storeLength = payload.length + 3;
+    const size = clamp(options.size ?? 6, 1, 16);
+    const errorCorrection = QR_ERROR_CORRECTION_CODES[level];
+
+    return this.raw([GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00])
+      .raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, size])
+      .raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, errorCorrection])
+      .raw([GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30])
+      .raw(payload)
+      .raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30])
+      .raw([LF]);
+  }
+
+  // Printed at the current alignment; see encodeRaster()
+  raster(image: RasterImage): this {
+    return this.raw(encodeRaster(image));
+  }
+
+  build(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
@@ -0,0 +1,109 @@
+// Deletes uploads nothing refers to: photos of products that failed to save,
+// replaced photos, images uploaded but never used. Only images older than the
+// grace period go, so an upload whose product is still being saved survives.
+
+import { envInt } from '../utils/env';
+import { deleteImage, listImages, StoredImage } from './minio';
+import { getReferencedImageIds } from './images';
+
+export type ImageCleanupReport = {
+  dryRun: boolean;
+  graceHours: number;
+  scanned: number;
+  orphans: StoredImage[]; // deleted, or that would be on a dry run
+  deleted: string[];
+  failed: { imageId: string; error: string }[];
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function getCleanupGraceHours(): number {
+  return envInt('IMAGE_CLEANUP_GRACE_HOURS', 24);
+}
+
+/**
+ * Images that aren't referenced and were last modified before `cutoff`.
+ */
+export function findOrphanedImages(images: StoredImage[], referenced: Set<string>, cutoff: Date): StoredImage[] {
+  return images.filter((image) => !referenced.has(image.imageId) && image.lastModified < cutoff);
+}
+
+/**
+ * Compare the bucket with what products and the receipt logo use, and delete the
+ * rest (with their variants). A dry run only reports what would be deleted.
+ */
+export async function cleanupOrphanedImages(
+  options: { dryRun?: boolean; graceHours?: number } = {}
+): Promise<ImageCleanupReport> {
+  const dryRun = options.dryRun ?? false;
+  const graceHours = options.graceHours ?? getCleanupGraceHours();
+
+  // Listed before reading the references, so an image that gets used in between is kept
+  const images = await listImages();
+  const referenced = await getReferencedImageIds();
+  const orphans = findOrphanedImages(images, referenced, new Date(Date.now() - graceHours * HOUR_MS));
+
+  const report: ImageCleanupReport = { dryRun, graceHours, scanned: images.length, orphans, deleted: [], failed: [] };
+
+  if (dryRun) {
+    return report;
+  }
+
+  for (const { imageId } of orphans) {
+    try {
+      await deleteImage(imageId);
+      report.deleted.push(imageId);
+    } catch (error) {
+      report.failed.push({ imageId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+}
+
+// === Schedule ===
+// Like the print queue, only runs after startImageCleanup() (called when the server starts)
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+// Timers take at most 2^31 - 1 ms; Node runs anything longer after 1 ms instead
+export const MAX_CLEANUP_INTERVAL_HOURS = Math.floor((2 ** 31 - 1) / HOUR_MS);
+
+/**
+ * Clean up every IMAGE_CLEANUP_INTERVAL_HOURS (default 24, 0 turns it off,
+ * at most MAX_CLEANUP_INTERVAL_HOURS).
+ */
+export function startImageCleanup(): void {
+  let intervalHours = envInt('IMAGE_CLEANUP_INTERVAL_HOURS', 24);
+
+  stopImageCleanup();
+  if (intervalHours === 0) return;
+
+  if (intervalHours > MAX_CLEANUP_INTERVAL_HOURS) {
+    console.warn(
+      `IMAGE_CLEANUP_INTERVAL_HOURS=${intervalHours} is above the ${MAX_CLEANUP_INTERVAL_HOURS} hour maximum, using that instead`
+    );
+    intervalHours = MAX_CLEANUP_INTERVAL_HOURS;
+  }
+
+  cleanupTimer = setInterval(() => {
+    cleanupOrphanedImages()
+      .then((report) => {
+        if (report.orphans.length > 0) {
+          console.log(
+            `Image cleanup: deleted ${report.deleted.length} of ${report.orphans.length} unused images` +
+            (report.failed.length > 0 ? `, ${report.failed.length} failed` : '')
+          );
+        }
+      })
+      .catch((error) => console.error('Image cleanup failed:', error));
+  }, intervalHours * HOUR_MS);
+  cleanupTimer.unref();
+}
+
+export function stopImageCleanup(): void {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
+  }
+}
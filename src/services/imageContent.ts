@@ -0,0 +1,74 @@
+// What an uploaded file really is, going by its bytes rather than the type the
+// client claims, and a clean copy of it to store: upright, without EXIF (phone
+// photos carry the GPS position they were taken at), named after its content.
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+
+export const UPLOAD_IMAGE_TYPES = ['jpeg', 'png', 'gif', 'webp'] as const;
+
+export type UploadImageType = (typeof UPLOAD_IMAGE_TYPES)[number];
+
+export const IMAGE_MIME_TYPES: Record<UploadImageType, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+const ascii = (text: string) => [...text].map((c) => c.charCodeAt(0));
+
+/**
+ * The image type from the file's magic bytes, or null if it isn't one we accept.
+ */
+export function detectImageType(buffer: Buffer): UploadImageType | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(buffer, ascii('GIF87a')) || startsWith(buffer, ascii('GIF89a'))) return 'gif';
+  if (startsWith(buffer, ascii('RIFF')) && startsWith(buffer, ascii('WEBP'), 8)) return 'webp';
+  return null;
+}
+
+/**
+ * Re-encode an image in its own format: rotated upright from the EXIF orientation,
+ * with all metadata dropped (sharp writes none unless asked). Animations keep
+ * their frames. Throws if the image can't be decoded.
+ */
+export async function sanitizeImage(image: Buffer, type: UploadImageType): Promise<Buffer> {
+  const { format, pages = 1 } = await sharp(image).metadata();
+
+  if (format !== type) {
+    throw new Error(`Expected ${type} image, got ${format}`);
+  }
+
+  // Animated images have no orientation to apply, and rotate() works on single frames
+  const pipeline = pages > 1 ? sharp(image, { animated: true }) : sharp(image).rotate();
+
+  switch (type) {
+    case 'jpeg':
+      return pipeline.jpeg({ quality: 90 }).toBuffer();
+    case 'png':
+      return pipeline.png().toBuffer();
+    case 'gif':
+      return pipeline.gif().toBuffer();
+    case 'webp':
+      return pipeline.webp({ quality: 90 }).toBuffer();
+  }
+}
+
+/**
+ * Object name for stored image bytes: their SHA-256 and the type's extension, e.g.
+ * 3a7bd3e2360a3d29eea436fcfb7e44c735d117c42d1c1835420b6b9942dd4f1b.png. The same
+ * image uploaded twice is stored once.
+ */
+export function getImageObjectName(image: Buffer, type: UploadImageType): string {
+  return `${createHash('sha256').update(image).digest('hex')}.${type}`;
+}
+
+export function getImageTypeFromMime(mimeType: string): UploadImageType | null {
+  return UPLOAD_IMAGE_TYPES.find((type) => IMAGE_MIME_TYPES[type] === mimeType) ?? null;
+}
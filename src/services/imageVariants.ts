@@ -0,0 +1,103 @@
+// Resized copies of uploaded images, so lists can load a thumbnail instead of a
+// 5MB photo. Every variant is stored next to the original in MinIO, in the
+// original's format and as WebP, under a name derived from the image ID.
+
+import sharp from 'sharp';
+
+export const IMAGE_VARIANTS = ['thumbnail', 'medium', 'original'] as const;
+
+export type ImageVariant = (typeof IMAGE_VARIANTS)[number];
+
+// `original` keeps the uploaded format (JPEG, PNG, GIF or WebP)
+export const IMAGE_FORMATS = ['original', 'webp'] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+// Maximum width in pixels; smaller images are never enlarged
+export const IMAGE_VARIANT_WIDTHS: Record<Exclude<ImageVariant, 'original'>, number> = {
+  thumbnail: 256,
+  medium: 1024,
+};
+
+// What the upload middleware accepts; anything else has no variants
+const VARIANT_SOURCE_FORMATS: string[] = ['jpeg', 'png', 'gif', 'webp'];
+
+// Variants never clash with uploads, whose names have no slash
+export const VARIANT_PREFIX = 'variants/';
+
+export type ImageVariantObject = {
+  objectName: string;
+  buffer: Buffer;
+  contentType: string;
+};
+
+/**
+ * Where a variant is stored, e.g. variants/<image ID>/thumbnail.webp.
+ * The original in its own format is the uploaded object itself.
+ */
+export function getVariantObjectName(imageId: string, variant: ImageVariant, format: ImageFormat): string {
+  if (variant === 'original' && format === 'original') {
+    return imageId;
+  }
+
+  return `${VARIANT_PREFIX}${imageId}/${variant}${format === 'webp' ? '.webp' : ''}`;
+}
+
+// Every name getVariantObjectName() can return for an image, except the original
+export function getVariantObjectNames(imageId: string): string[] {
+  return IMAGE_VARIANTS.flatMap((variant) =>
+    IMAGE_FORMATS.map((format) => getVariantObjectName(imageId, variant, format))
+  ).filter((name) => name !== imageId);
+}
+
+/**
+ * The smallest variant that is at least `width` pixels wide.
+ */
+export function pickVariantForWidth(width: number): ImageVariant {
+  if (width <= IMAGE_VARIANT_WIDTHS.thumbnail) return 'thumbnail';
+  if (width <= IMAGE_VARIANT_WIDTHS.medium) return 'medium';
+  return 'original';
+}
+
+/**
+ * Render the variants of an uploaded image. Rotated upright from the EXIF orientation,
+ * since the copies don't keep the metadata browsers use to do that.
+ */
+export async function buildImageVariants(imageId: string, image: Buffer): Promise<ImageVariantObject[]> {
+  const { format, pages = 1 } = await sharp(image).metadata();
+
+  if (!VARIANT_SOURCE_FORMATS.includes(format)) {
+    throw new Error(`Unsupported image format: ${format}`);
+  }
+
+  const objects: ImageVariantObject[] = [];
+
+  for (const variant of IMAGE_VARIANTS) {
+    const resized = () => {
+      // Every frame of an animated GIF or WebP, not just the first
+      const pipeline = sharp(image, { animated: pages > 1 }).rotate();
+      return variant === 'original'
+        ? pipeline
+        : pipeline.resize({ width: IMAGE_VARIANT_WIDTHS[variant], withoutEnlargement: true });
+    };
+
+    if (variant !== 'original') {
+      objects.push({
+        objectName: getVariantObjectName(imageId, variant, 'original'),
+        buffer: await resized().toBuffer(),
+        contentType: `image/${format}`,
+      });
+    }
+
+    // A WebP upload already is its own WebP original
+    if (variant !== 'original' || format !== 'webp') {
+      objects.push({
+        objectName: getVariantObjectName(imageId, variant, 'webp'),
+        buffer: await resized().webp().toBuffer(),
+        contentType: 'image/webp',
+      });
+    }
+  }
+
+  return objects;
+}
@@ -0,0 +1,58 @@
+// Which uploaded images are still referenced, so replacing or deleting one never
+// breaks a product photo or the receipt logo.
+
+import { count, eq, isNotNull } from 'drizzle-orm';
+import { db } from '../db';
+import { products } from '../db/schema';
+import { deleteImage } from './minio';
+import { getReceiptLogoId } from './printLogo';
+
+export type ImageUsage = {
+  productIds: number[];
+  receiptLogo: boolean;
+};
+
+export async function getImageUsage(imageId: string): Promise<ImageUsage> {
+  const rows = await db.select({ id: products.id }).from(products).where(eq(products.imageId, imageId));
+
+  return {
+    productIds: rows.map((row) => row.id),
+    receiptLogo: (await getReceiptLogoId()) === imageId,
+  };
+}
+
+// Every image a product or the receipt logo refers to
+export async function getReferencedImageIds(): Promise<Set<string>> {
+  const rows = await db
+    .selectDistinct({ imageId: products.imageId })
+    .from(products)
+    .where(isNotNull(products.imageId));
+  const ids = new Set(rows.map((row) => row.imageId as string));
+
+  const logo = await getReceiptLogoId();
+  if (logo) ids.add(logo);
+
+  return ids;
+}
+
+export async function isImageInUse(imageId: string): Promise<boolean> {
+  const [{ value }] = await db.select({ value: count() }).from(products).where(eq(products.imageId, imageId));
+  return value > 0 || (await getReceiptLogoId()) === imageId;
+}
+
+/**
+ * Delete an image nothing refers to any more, e.g. a product's previous photo.
+ * Never throws: a leftover object is better than a failed request.
+ */
+export async function deleteImageIfUnused(imageId: string): Promise<boolean> {
+  try {
+    if (await isImageInUse(imageId)) {
+      return false;
+    }
+    await deleteImage(imageId);
+    return true;
+  } catch (error) {
+    console.error(`Error deleting image ${imageId}:`, error);
+    return false;
+  }
+}
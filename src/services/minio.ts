@@ -1,5 +1,7 @@
 import { Client } from 'minio';
 import dotenv from 'dotenv';
+import { buildImageVariants, getVariantObjectNames, VARIANT_PREFIX } from './imageVariants';
+import { getImageObjectName, getImageTypeFromMime } from './imageContent';
 
 dotenv.config();
 
@@ -50,17 +52,23 @@ export async function initializeMinIO() {
   }
 }
 
-export async function uploadImage(
-  fileName: string,
-  fileBuffer: Buffer,
-  mimeType: string
-): Promise<string> {
+/**
+ * Store an image (already checked and sanitised, see middleware/upload.ts) under a
+ * name made from its content, with its variants. Returns the image ID.
+ */
+export async function uploadImage(fileBuffer: Buffer, mimeType: string): Promise<string> {
+  const type = getImageTypeFromMime(mimeType);
+
+  if (!type) {
+    throw new Error(`Unsupported image type: ${mimeType}`);
+  }
+
+  const objectName = getImageObjectName(fileBuffer, type);
+
   if (isTestEnv) {
-    return `${Date.now()}-${fileName}`;
+    return objectName;
   }
   try {
-    const objectName = `${Date.now()}-${fileName}`;
-
     await minioClient.putObject(
       bucketName,
       objectName,
@@ -71,6 +79,8 @@ export async function uploadImage(
       }
     );
 
+    await uploadImageVariants(objectName, fileBuffer);
+
     return objectName;
   } catch (error) {
     console.error('Error uploading image to MinIO:', error);
@@ -78,18 +88,94 @@ export async function uploadImage(
   }
 }
 
+// An image whose variants can't be made is still usable, just served at full size
+async function uploadImageVariants(imageId: string, fileBuffer: Buffer): Promise<void> {
+  let variants;
+  try {
+    variants = await buildImageVariants(imageId, fileBuffer);
+  } catch (error) {
+    console.warn(`No variants for image ${imageId}:`, error);
+    return;
+  }
+
+  for (const variant of variants) {
+    await minioClient.putObject(bucketName, variant.objectName, variant.buffer, variant.buffer.length, {
+      'Content-Type': variant.contentType,
+    });
+  }
+}
+
 export async function deleteImage(imageId: string): Promise<void> {
   if (isTestEnv) {
     return;
   }
   try {
     await minioClient.removeObject(bucketName, imageId);
+    await minioClient.removeObjects(bucketName, getVariantObjectNames(imageId));
   } catch (error) {
     console.error('Error deleting image from MinIO:', error);
     throw new Error('Failed to delete image');
   }
 }
 
+export async function getImage(imageId: string): Promise<Buffer> {
+  const stream = await minioClient.getObject(bucketName, imageId);
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks);
+}
+
+export type StoredImage = {
+  imageId: string;
+  size: number;
+  lastModified: Date;
+};
+
+function isNotFound(error: any): boolean {
+  return error?.code === 'NoSuchKey' || error?.code === 'NotFound';
+}
+
+export async function imageExists(imageId: string): Promise<boolean> {
+  if (isTestEnv) {
+    return true;
+  }
+  if (imageId.startsWith(VARIANT_PREFIX)) {
+    return false;
+  }
+  try {
+    await minioClient.statObject(bucketName, imageId);
+    return true;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Every uploaded image in the bucket (not their variants), newest first.
+ */
+export async function listImages(): Promise<StoredImage[]> {
+  if (isTestEnv) {
+    return [];
+  }
+
+  const images: StoredImage[] = [];
+
+  for await (const item of minioClient.listObjectsV2(bucketName, '', true)) {
+    if (item.name && !item.name.startsWith(VARIANT_PREFIX)) {
+      images.push({ imageId: item.name, size: item.size, lastModified: item.lastModified });
+    }
+  }
+
+  return images.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+}
+
 export function getImageUrl(imageId: string): string {
   return `http://${process.env.MINIO_ENDPOINT}:${process.env.MINIO_PORT}/${bucketName}/${imageId}`;
 }
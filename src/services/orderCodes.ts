@@ -0,0 +1,67 @@
+// Codes printed on order documents and read back by the scanner at pickup.
+
+export const ORDER_CODE_PREFIX = 'LNQ';
+
+// Code128 barcode content, e.g. LNQ-000042
+export function formatOrderCode(orderId: number): string {
+  return `${ORDER_CODE_PREFIX}-${orderId.toString().padStart(6, '0')}`;
+}
+
+/**
+ * What the QR code on a document holds: ORDER_QR_URL with {id} and {code} filled
+ * in (e.g. a link to the order page or a payment page), or the order code itself.
+ */
+export function getOrderQrContent(orderId: number): string {
+  const template = process.env.ORDER_QR_URL;
+
+  if (!template) {
+    return formatOrderCode(orderId);
+  }
+
+  return template.replace(/\{id\}/g, String(orderId)).replace(/\{code\}/g, formatOrderCode(orderId));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// orders.id is a Postgres integer: anything larger can't be an order, and
+// comparing the column with it is a database error
+const MAX_ORDER_ID = 2147483647;
+
+function toOrderId(value: string | undefined): number | null {
+  const id = parseInt(value ?? '', 10);
+  return Number.isSafeInteger(id) && id > 0 && id <= MAX_ORDER_ID ? id : null;
+}
+
+/**
+ * Resolve a scanned barcode or QR code, or a typed order number, to an order ID.
+ * Returns null if the code isn't one of ours.
+ */
+export function parseOrderCode(code: string): number | null {
+  const value = code.trim();
+
+  const orderCode = value.match(new RegExp(`^${ORDER_CODE_PREFIX}-?(\\d+)$`, 'i'));
+  if (orderCode) {
+    return toOrderId(orderCode[1]);
+  }
+
+  if (/^#?\d+$/.test(value)) {
+    return toOrderId(value.replace('#', ''));
+  }
+
+  // QR codes made from ORDER_QR_URL
+  const template = process.env.ORDER_QR_URL;
+  if (template) {
+    const pattern = escapeRegExp(template)
+      .replace(/\\\{id\\\}/g, '(\\d+)')
+      .replace(/\\\{code\\\}/g, `${ORDER_CODE_PREFIX}-(\\d+)`);
+    const match = value.match(new RegExp(`^${pattern}$`, 'i'));
+
+    if (match) {
+      return toOrderId(match[1]);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,90 @@
+import { and, asc, desc, eq, ilike, inArray, lte, gte, notInArray, sql, SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { orders, orderItems } from '../db/schema';
+import { ListOrdersQuery } from '../validators';
+import { OrderStatus } from './orderStatus';
+
+// Matches the value literally inside a LIKE/ILIKE pattern
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Build the WHERE clause for GET /api/orders from the validated query string.
+ * Returns undefined when no filter is applied.
+ */
+export function buildOrderFilters(query: ListOrdersQuery, statuses: OrderStatus[] = []): SQL | undefined {
+  const conditions: SQL[] = [];
+
+  if (statuses.length > 0) {
+    conditions.push(inArray(orders.status, statuses));
+  }
+
+  if (query.pickupFrom) {
+    conditions.push(gte(orders.pickupDate, query.pickupFrom));
+  }
+  if (query.pickupTo) {
+    conditions.push(lte(orders.pickupDate, query.pickupTo));
+  }
+
+  // created_at is a timestamp: compare against dates in SQL so the range is whole days, inclusive
+  if (query.createdFrom) {
+    conditions.push(sql`${orders.createdAt} >= ${query.createdFrom}::date`);
+  }
+  if (query.createdTo) {
+    conditions.push(sql`${orders.createdAt} < ${query.createdTo}::date + 1`);
+  }
+
+  if (query.customer) {
+    conditions.push(ilike(orders.customerName, `%${escapeLike(query.customer)}%`));
+  }
+
+  if (query.customerId !== undefined) {
+    conditions.push(eq(orders.customerId, query.customerId));
+  }
+
+  if (query.productId !== undefined) {
+    conditions.push(
+      inArray(
+        orders.id,
+        db
+          .select({ orderId: orderItems.orderId })
+          .from(orderItems)
+          .where(eq(orderItems.productId, query.productId))
+      )
+    );
+  }
+
+  if (query.hasCustomItems !== undefined) {
+    const ordersWithCustomItems = db
+      .select({ orderId: orderItems.orderId })
+      .from(orderItems)
+      .where(eq(orderItems.itemType, 'custom'));
+
+    conditions.push(
+      query.hasCustomItems
+        ? inArray(orders.id, ordersWithCustomItems)
+        : notInArray(orders.id, ordersWithCustomItems)
+    );
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export function buildOrderSort(query: Pick<ListOrdersQuery, 'sortBy' | 'sortOrder'>): SQL[] {
+  const direction = query.sortOrder === 'asc' ? asc : desc;
+
+  switch (query.sortBy) {
+    case 'pickupDate':
+      // Orders without a pickup date always go last
+      return [
+        sql`${orders.pickupDate} ${sql.raw(query.sortOrder)} nulls last`,
+        direction(orders.id),
+      ];
+    case 'customerName':
+      return [direction(sql`lower(${orders.customerName})`), direction(orders.id)];
+    case 'createdAt':
+    default:
+      return [direction(orders.createdAt), direction(orders.id)];
+  }
+}
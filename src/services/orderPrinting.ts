@@ -0,0 +1,196 @@
+// Printing order documents: on request from the printer routes, and on their own
+// when an order event matches one of the AUTO_PRINT_RULES.
+
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { orders } from '../db/schema';
+import { printerNameSchema } from '../validators';
+import {
+  buildOrderDocument,
+  toPrinterOrder,
+  DEFAULT_PRINTER_COLUMNS,
+  OrderDocument,
+  ORDER_DOCUMENTS,
+  ORDER_DOCUMENT_PRINTER_ROLES,
+} from './printer';
+import { getReceiptLogo } from './printLogo';
+import { submitPrintJob, PrintJob } from './printQueue';
+import { resolvePrintTarget, PrintTarget } from './printers';
+import { ORDER_STATUSES } from './orderStatus';
+
+export const DOCUMENT_TITLES: Record<OrderDocument, string> = {
+  receipt: 'Receipt',
+  kitchen_ticket: 'Kitchen ticket',
+  pickup_label: 'Pickup label',
+};
+
+export async function findPrintableOrder(id: number) {
+  return db.query.orders.findFirst({
+    where: eq(orders.id, id),
+    with: {
+      items: {
+        with: {
+          product: true,
+        },
+      },
+      payments: true,
+    },
+  });
+}
+
+export type PrintableOrder = NonNullable<Awaited<ReturnType<typeof findPrintableOrder>>>;
+
+/**
+ * The bytes of an order document for the target's paper width and code page,
+ * with the shop logo on receipts.
+ */
+export async function buildOrderOutput(
+  order: PrintableOrder,
+  document: OrderDocument,
+  target: Pick<PrintTarget, 'columns' | 'codePage'>
+): Promise<Buffer> {
+  const columns = target.columns ?? DEFAULT_PRINTER_COLUMNS;
+  const logo = document === 'receipt' ? await getReceiptLogo(columns) : undefined;
+
+  return buildOrderDocument(document, toPrinterOrder(order), { columns, codePage: target.codePage, logo });
+}
+
+export async function printOrderDocument(
+  order: PrintableOrder,
+  document: OrderDocument,
+  target: PrintTarget,
+  createdBy?: string | null
+): Promise<PrintJob> {
+  return submitPrintJob({
+    kind: document,
+    orderId: order.id,
+    description: `${DOCUMENT_TITLES[document]} #${order.id} ${order.customerName}`,
+    target,
+    content: await buildOrderOutput(order, document, target),
+    createdBy,
+  });
+}
+
+// === Automatic printing ===
+
+// `created` and `paid` (balance fully paid), or the status an order moves to
+export const AUTO_PRINT_EVENTS = ['created', 'paid', ...ORDER_STATUSES] as const;
+
+export type AutoPrintEvent = (typeof AUTO_PRINT_EVENTS)[number];
+
+export type AutoPrintRule = {
+  event: AutoPrintEvent;
+  document: OrderDocument;
+  printer?: string; // registered printer name; defaults to the document's role
+};
+
+function isAutoPrintEvent(value: string): value is AutoPrintEvent {
+  return (AUTO_PRINT_EVENTS as readonly string[]).includes(value);
+}
+
+function isOrderDocument(value: string): value is OrderDocument {
+  return (ORDER_DOCUMENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse AUTO_PRINT_RULES: comma separated `<event>:<document>[@<printer>]`, e.g.
+ * `created:kitchen_ticket,paid:receipt,ready:pickup_label@counter`. Entries that
+ * don't parse, or name a printer no printer can be called, are skipped with a warning.
+ */
+export function parseAutoPrintRules(value: string | undefined): AutoPrintRule[] {
+  const rules: AutoPrintRule[] = [];
+
+  for (const entry of (value ?? '').split(',').map((v) => v.trim()).filter((v) => v.length > 0)) {
+    const [, event = '', document = '', printer] = entry.match(/^([a-z_]+):([a-z_]+)(?:@(.+))?$/) ?? [];
+
+    if (!isAutoPrintEvent(event) || !isOrderDocument(document)) {
+      console.warn(`Ignoring auto print rule '${entry}'`);
+      continue;
+    }
+
+    const printerName = printer?.trim();
+
+    if (printerName && !printerNameSchema.safeParse(printerName).success) {
+      console.warn(`Ignoring auto print rule '${entry}': '${printerName}' is not a valid printer name`);
+      continue;
+    }
+
+    const rule: AutoPrintRule = { event, document, ...(printerName ? { printer: printerName } : {}) };
+
+    // The same document twice for one event would print it twice
+    if (!rules.some((r) => r.event === rule.event && r.document === rule.document && r.printer === rule.printer)) {
+      rules.push(rule);
+    }
+  }
+
+  return rules;
+}
+
+// Parsed once per value, so a bad entry is only warned about once
+let cachedRules: { value: string | undefined; rules: AutoPrintRule[] } | null = null;
+
+export function getAutoPrintRules(): AutoPrintRule[] {
+  const value = process.env.AUTO_PRINT_RULES;
+
+  if (!cachedRules || cachedRules.value !== value) {
+    cachedRules = { value, rules: parseAutoPrintRules(value) };
+  }
+
+  return cachedRules.rules;
+}
+
+/**
+ * Print every document the rules ask for on `event`. Rules whose printer can't be
+ * resolved are skipped; failed prints stay queued for retries like any other job.
+ */
+export async function runAutoPrint(
+  event: AutoPrintEvent,
+  orderId: number,
+  createdBy?: string | null,
+  allRules: AutoPrintRule[] = getAutoPrintRules()
+): Promise<PrintJob[]> {
+  const rules = allRules.filter((rule) => rule.event === event);
+
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const order = await findPrintableOrder(orderId);
+
+  if (!order) {
+    return [];
+  }
+
+  const jobs: PrintJob[] = [];
+
+  for (const rule of rules) {
+    const target = await resolvePrintTarget(ORDER_DOCUMENT_PRINTER_ROLES[rule.document], rule.printer);
+
+    if (!target) {
+      console.warn(`Auto print: unknown or inactive printer '${rule.printer}' for ${rule.document}`);
+      continue;
+    }
+
+    jobs.push(await printOrderDocument(order, rule.document, target, createdBy));
+  }
+
+  return jobs;
+}
+
+/**
+ * Run the rules for `event` once the current request is done with. Never throws
+ * and never delays the response: the order change has already happened, so a
+ * printing problem only ends up in the print queue or the log.
+ */
+export function triggerAutoPrint(event: AutoPrintEvent, orderId: number, createdBy?: string | null): void {
+  // The rules as they are now, in case the configuration changes in between
+  const rules = getAutoPrintRules();
+
+  if (!rules.some((rule) => rule.event === event)) {
+    return;
+  }
+
+  setImmediate(() => {
+    runAutoPrint(event, orderId, createdBy, rules).catch((error) => console.error('Auto print failed:', error));
+  });
+}
@@ -0,0 +1,48 @@
+export const ORDER_STATUSES = ['pending', 'in_production', 'ready', 'picked_up', 'cancelled'] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Allowed moves for each status. picked_up and cancelled are terminal.
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['in_production', 'cancelled'],
+  in_production: ['ready', 'cancelled'],
+  ready: ['picked_up', 'cancelled'],
+  picked_up: [],
+  cancelled: [],
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function getAllowedTransitions(from: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[from] ?? [];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Parse a `status` query value (single value, comma separated list or repeated param)
+ * into a list of known statuses. Returns the unknown values separately so the caller
+ * can reject them.
+ */
+export function parseStatusFilter(value: unknown): { statuses: OrderStatus[]; invalid: string[] } {
+  const raw = (Array.isArray(value) ? value : [value])
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+
+  const statuses: OrderStatus[] = [];
+  const invalid: string[] = [];
+  for (const v of raw) {
+    if (isOrderStatus(v)) {
+      if (!statuses.includes(v)) statuses.push(v);
+    } else {
+      invalid.push(v);
+    }
+  }
+  return { statuses, invalid };
+}
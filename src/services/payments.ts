@@ -0,0 +1,29 @@
+export const PAYMENT_METHODS = ['cash', 'transfer', 'qris'] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid';
+
+export type PaymentSummary = {
+  total: number;
+  paid: number;
+  outstanding: number; // negative when the customer has overpaid
+  status: PaymentStatus;
+};
+
+export function summarizePayments(
+  total: number,
+  payments: { amount: number }[]
+): PaymentSummary {
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const outstanding = total - paid;
+
+  let status: PaymentStatus = 'unpaid';
+  if (paid > 0) {
+    status = outstanding > 0 ? 'partial' : 'paid';
+  } else if (total === 0) {
+    status = 'paid';
+  }
+
+  return { total, paid, outstanding, status };
+}
@@ -0,0 +1,77 @@
+import { OrderStatus } from './orderStatus';
+
+export const ROLES = ['owner', 'cashier', 'kitchen'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  'products:read',
+  'products:write', // create products, change prices and photos
+  'products:delete',
+  'customers:read',
+  'customers:write',
+  'customers:delete',
+  'orders:read',
+  'orders:write', // create orders and edit items, prices, discounts
+  'orders:price', // set line prices other than the product price
+  'orders:delete',
+  'orders:status', // any status transition
+  'orders:production', // only the production steps, see PRODUCTION_STATUSES
+  'payments:read',
+  'payments:write',
+  'payments:delete',
+  'production:read',
+  'printer:print',
+  'printers:manage', // printer registry
+  'reports:read',
+  'images:cleanup', // delete images nothing uses
+  'users:manage', // staff accounts and API keys
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Statuses a holder of 'orders:production' may move an order to
+export const PRODUCTION_STATUSES: OrderStatus[] = ['in_production', 'ready'];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  cashier: [
+    'products:read',
+    'customers:read',
+    'customers:write',
+    'orders:read',
+    'orders:write',
+    'orders:status',
+    'payments:read',
+    'payments:write',
+    'production:read',
+    'printer:print',
+  ],
+  kitchen: [
+    'products:read',
+    'customers:read',
+    'orders:read',
+    'orders:production',
+    'production:read',
+    'printer:print',
+  ],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function getPermissions(role: Role): readonly Permission[] {
+  return ROLE_PERMISSIONS[role] ?? [];
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
+
+export function canSetOrderStatus(role: Role, status: OrderStatus): boolean {
+  return (
+    hasPermission(role, 'orders:status') ||
+    (hasPermission(role, 'orders:production') && PRODUCTION_STATUSES.includes(status))
+  );
+}
@@ -0,0 +1,137 @@
+import { and, asc, gte, lte, ne, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { orders, orderItems, products } from '../db/schema';
+
+export type PrepListRow = {
+  orderId: number;
+  customerName: string;
+  pickupDate: string | null;
+  itemType: string;
+  productId: number | null;
+  productName: string | null;
+  amount: number | null;
+  customName: string | null;
+  notes: string | null;
+};
+
+export type PrepListNote = {
+  note: string;
+  quantity: number;
+  orders: { orderId: number; customerName: string }[];
+};
+
+export type PrepListProduct = {
+  productId: number;
+  name: string;
+  quantity: number;
+  orderCount: number;
+  notes: PrepListNote[];
+};
+
+export type PrepListCustomItem = {
+  orderId: number;
+  customerName: string;
+  pickupDate: string | null;
+  name: string;
+  notes: string | null;
+};
+
+export type PrepList = {
+  from: string;
+  to: string;
+  products: PrepListProduct[];
+  customItems: PrepListCustomItem[];
+};
+
+/**
+ * Aggregate order item rows into per-product quantities. Items with the same note
+ * text are grouped so the kitchen sees "3x tulisan HBD" once instead of three times.
+ * Custom items can't be aggregated and are listed one by one.
+ */
+export function buildPrepList(rows: PrepListRow[], range: { from: string; to: string }): PrepList {
+  const byProduct = new Map<number, PrepListProduct & { orderIds: Set<number> }>();
+  const customItems: PrepListCustomItem[] = [];
+
+  for (const row of rows) {
+    if (row.itemType === 'custom' || row.productId === null) {
+      customItems.push({
+        orderId: row.orderId,
+        customerName: row.customerName,
+        pickupDate: row.pickupDate,
+        name: row.customName ?? 'Custom Item',
+        notes: row.notes,
+      });
+      continue;
+    }
+
+    let entry = byProduct.get(row.productId);
+    if (!entry) {
+      entry = {
+        productId: row.productId,
+        name: row.productName ?? `Product ${row.productId}`,
+        quantity: 0,
+        orderCount: 0,
+        notes: [],
+        orderIds: new Set(),
+      };
+      byProduct.set(row.productId, entry);
+    }
+
+    const quantity = row.amount ?? 1;
+    entry.quantity += quantity;
+    entry.orderIds.add(row.orderId);
+
+    const note = row.notes?.trim();
+    if (note) {
+      let group = entry.notes.find((n) => n.note.toLowerCase() === note.toLowerCase());
+      if (!group) {
+        group = { note, quantity: 0, orders: [] };
+        entry.notes.push(group);
+      }
+      group.quantity += quantity;
+      group.orders.push({ orderId: row.orderId, customerName: row.customerName });
+    }
+  }
+
+  const prepProducts = [...byProduct.values()]
+    .map(({ orderIds, ...entry }) => ({ ...entry, orderCount: orderIds.size }))
+    .sort((a, b) => b.quantity - a.quantity || a.name.localeCompare(b.name));
+
+  return {
+    from: range.from,
+    to: range.to,
+    products: prepProducts,
+    customItems,
+  };
+}
+
+/**
+ * Load every item of non-cancelled orders picked up between `from` and `to` (inclusive).
+ */
+export async function getPrepList(from: string, to: string): Promise<PrepList> {
+  const rows = await db
+    .select({
+      orderId: orders.id,
+      customerName: orders.customerName,
+      pickupDate: orders.pickupDate,
+      itemType: orderItems.itemType,
+      productId: orderItems.productId,
+      productName: products.name,
+      amount: orderItems.amount,
+      customName: orderItems.customName,
+      notes: orderItems.notes,
+    })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .leftJoin(products, eq(orderItems.productId, products.id))
+    .where(
+      and(
+        gte(orders.pickupDate, from),
+        lte(orders.pickupDate, to),
+        ne(orders.status, 'cancelled')
+      )
+    )
+    .orderBy(asc(orders.pickupDate), asc(orders.id), asc(orderItems.id));
+
+  return buildPrepList(rows, { from, to });
+}
@@ -0,0 +1,57 @@
+// Single source of truth for order money maths. Both the API responses (cleanOrder)
+// and the printed receipts go through here so the numbers can never disagree.
+
+export type PricingItem = {
+  itemType: string;
+  amount?: number | null;
+  priceAtSale?: number | null;
+  customPrice?: number | null;
+  product?: { price: number } | null;
+};
+
+export type PricedLine = {
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+};
+
+export type OrderAdjustments = {
+  discount?: number | null;
+  fee?: number | null;
+};
+
+export type OrderTotals = {
+  subtotal: number;
+  discount: number;
+  fee: number;
+  total: number;
+};
+
+export function priceLine(item: PricingItem): PricedLine {
+  if (item.itemType === 'custom') {
+    const unitPrice = item.customPrice ?? item.priceAtSale ?? 0;
+    return { unitPrice, quantity: 1, lineTotal: unitPrice };
+  }
+
+  // priceAtSale is the source of truth; fall back to the current product price for legacy rows
+  const unitPrice = item.priceAtSale ?? item.product?.price ?? 0;
+  const quantity = item.amount ?? 1;
+  return { unitPrice, quantity, lineTotal: unitPrice * quantity };
+}
+
+export function computeOrderTotals(
+  items: PricingItem[],
+  adjustments: OrderAdjustments = {}
+): OrderTotals {
+  const subtotal = items.reduce((sum, item) => sum + priceLine(item).lineTotal, 0);
+  // A discount can never take the order below zero
+  const discount = Math.min(Math.max(adjustments.discount ?? 0, 0), subtotal);
+  const fee = Math.max(adjustments.fee ?? 0, 0);
+
+  return {
+    subtotal,
+    discount,
+    fee,
+    total: subtotal - discount + fee,
+  };
+}
@@ -0,0 +1,7 @@
+export const PRINT_JOB_STATUSES = ['queued', 'printing', 'done', 'failed', 'cancelled'] as const;
+
+export type PrintJobStatus = (typeof PRINT_JOB_STATUSES)[number];
+
+// A failed or cancelled job can be queued again; queued and failed ones can be cancelled
+export const RETRYABLE_PRINT_JOB_STATUSES: PrintJobStatus[] = ['failed', 'cancelled'];
+export const CANCELLABLE_PRINT_JOB_STATUSES: PrintJobStatus[] = ['queued', 'failed'];
@@ -0,0 +1,127 @@
+// Shop logo printed at the top of receipts. The uploaded image stays in MinIO; each
+// paper width gets its own dithered raster, made once and kept in memory.
+
+import sharp from 'sharp';
+import { encodeRaster, RasterImage } from './escpos';
+import { getImage } from './minio';
+import { getSetting, setSetting } from './settings';
+
+export const RECEIPT_LOGO_SETTING = 'receipt_logo';
+
+// Font A is 12 dots wide: 32 columns are 384 dots (58 mm), 48 are 576 (80 mm)
+const DOTS_PER_COLUMN = 12;
+
+// Taller logos are scaled down so they don't eat the roll
+export const LOGO_MAX_HEIGHT = 200;
+
+export function getPrinterDotWidth(columns: number): number {
+  return columns * DOTS_PER_COLUMN;
+}
+
+/**
+ * Floyd-Steinberg dithering of 8-bit grey pixels (0 = black) into a 1-bit raster,
+ * so photos and soft edges keep their shading on a printer that only does black.
+ */
+export function ditherToRaster(pixels: Uint8Array, width: number, height: number): RasterImage {
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = Buffer.alloc(bytesPerRow * height);
+  const levels = Float32Array.from(pixels);
+
+  const spread = (x: number, y: number, error: number) => {
+    if (x >= 0 && x < width && y < height) levels[y * width + x] += error;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const level = levels[y * width + x];
+      const black = level < 128;
+      const error = level - (black ? 0 : 255);
+
+      if (black) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+
+      spread(x + 1, y, (error * 7) / 16);
+      spread(x - 1, y + 1, (error * 3) / 16);
+      spread(x, y + 1, (error * 5) / 16);
+      spread(x + 1, y + 1, error / 16);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Turn an image (PNG, JPEG, GIF, WebP) into a raster as wide as the paper: scaled
+ * down to fit `dotWidth` x `maxHeight`, transparency on white, centred, dithered.
+ */
+export async function renderRasterImage(
+  image: Buffer,
+  dotWidth: number,
+  maxHeight: number = LOGO_MAX_HEIGHT
+): Promise<RasterImage> {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .resize({ width: dotWidth, height: maxHeight, fit: 'inside', withoutEnlargement: true })
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Centred in code rather than with ESC a, which not every printer applies to images
+  const left = Math.floor((dotWidth - info.width) / 2);
+  const pixels = new Uint8Array(dotWidth * info.height).fill(255);
+
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      pixels[y * dotWidth + left + x] = data[(y * info.width + x) * info.channels];
+    }
+  }
+
+  return ditherToRaster(pixels, dotWidth, info.height);
+}
+
+// GS v 0 bytes by image ID and dot width
+const logoCache = new Map<string, Buffer>();
+
+export async function getReceiptLogoId(): Promise<string | null> {
+  return getSetting(RECEIPT_LOGO_SETTING);
+}
+
+/**
+ * Make `imageId` the receipt logo, or remove the logo with `null`. Returns the
+ * previous logo's image ID so the caller can delete it.
+ */
+export async function setReceiptLogo(imageId: string | null): Promise<string | null> {
+  const previous = await setSetting(RECEIPT_LOGO_SETTING, imageId);
+  logoCache.clear();
+  return previous;
+}
+
+/**
+ * The receipt logo as GS v 0 bytes for a printer with `columns`, or undefined when
+ * there is none. A logo that can't be loaded is left off rather than failing the print.
+ */
+export async function getReceiptLogo(columns: number): Promise<Buffer | undefined> {
+  const imageId = await getReceiptLogoId();
+
+  if (!imageId) {
+    return undefined;
+  }
+
+  const dotWidth = getPrinterDotWidth(columns);
+  const key = `${imageId}:${dotWidth}`;
+  let logo = logoCache.get(key);
+
+  if (!logo) {
+    try {
+      logo = encodeRaster(await renderRasterImage(await getImage(imageId), dotWidth));
+    } catch (error) {
+      console.error('Receipt logo unavailable:', error);
+      return undefined;
+    }
+    logoCache.set(key, logo);
+  }
+
+  return logo;
+}
@@ -0,0 +1,311 @@
+// Reads back the ESC/POS bytes sent to a printer and lays them out the way the
+// printer would, so a document can be checked without paper. Only the commands
+// EscPosBuilder emits are interpreted; anything else is skipped.
+
+import { decodeText, getCodePageByNumber, CodePage, DEFAULT_CODE_PAGE } from './codePage';
+import { TextAlign } from './escpos';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type PreviewSpan = {
+  text: string;
+  bold: boolean;
+  underline: boolean;
+  width: number; // character width multiplier
+  height: number; // character height multiplier
+};
+
+export type PreviewLine =
+  | { kind: 'text'; align: TextAlign; spans: PreviewSpan[] }
+  | { kind: 'barcode'; align: TextAlign; data: string }
+  | { kind: 'qr'; align: TextAlign; data: string }
+  | { kind: 'image'; width: number; height: number } // raster image, in dots
+  | { kind: 'cut' };
+
+type TextStyle = Omit<PreviewSpan, 'text'>;
+
+const ALIGNS: TextAlign[] = ['left', 'center', 'right'];
+
+const DEFAULT_STYLE: TextStyle = { bold: false, underline: false, width: 1, height: 1 };
+
+/**
+ * Turn ESC/POS output into lines of styled text, barcodes, QR codes, images and cuts.
+ */
+export function parseEscPos(content: Buffer): PreviewLine[] {
+  const lines: PreviewLine[] = [];
+  let spans: PreviewSpan[] = [];
+  let align: TextAlign = 'left';
+  let style: TextStyle = { ...DEFAULT_STYLE };
+  let codePage: CodePage = DEFAULT_CODE_PAGE;
+  let qrData = '';
+  // The line feed that ends a barcode or QR code doesn't add an empty line
+  let afterBlock = false;
+  let i = 0;
+
+  const addText = (text: string) => {
+    afterBlock = false;
+    const last = spans[spans.length - 1];
+    if (
+      last &&
+      last.bold === style.bold &&
+      last.underline === style.underline &&
+      last.width === style.width &&
+      last.height === style.height
+    ) {
+      last.text += text;
+    } else {
+      spans.push({ ...style, text });
+    }
+  };
+
+  const flush = () => {
+    lines.push({ kind: 'text', align, spans });
+    spans = [];
+  };
+
+  // A barcode, QR code or cut starts on a fresh line
+  const flushPending = () => {
+    if (spans.length > 0) flush();
+  };
+
+  while (i < content.length) {
+    const byte = content[i];
+
+    if (byte === LF) {
+      if (!afterBlock || spans.length > 0) flush();
+      afterBlock = false;
+      i += 1;
+    } else if (byte === ESC) {
+      const command = content[i + 1];
+      const n = content[i + 2] ?? 0;
+
+      switch (command) {
+        case 0x40: // ESC @
+          align = 'left';
+          style = { ...DEFAULT_STYLE };
+          codePage = DEFAULT_CODE_PAGE;
+          i += 2;
+          break;
+        case 0x74: // ESC t n
+          codePage = getCodePageByNumber(n) ?? DEFAULT_CODE_PAGE;
+          i += 3;
+          break;
+        case 0x61: // ESC a n
+          align = ALIGNS[n % 48] ?? 'left';
+          i += 3;
+          break;
+        case 0x45: // ESC E n
+          style = { ...style, bold: (n & 1) === 1 };
+          i += 3;
+          break;
+        case 0x2d: // ESC - n
+          style = { ...style, underline: n % 48 > 0 };
+          i += 3;
+          break;
+        case 0x64: // ESC d n
+          flushPending();
+          for (let line = 0; line < n; line++) flush();
+          i += 3;
+          break;
+        default:
+          i += 3;
+      }
+    } else if (byte === GS) {
+      const command = content[i + 1];
+      const n = content[i + 2] ?? 0;
+
+      if (command === 0x21) {
+        // GS ! n
+        style = { ...style, width: (n >> 4) + 1, height: (n & 0x0f) + 1 };
+        i += 3;
+      } else if (command === 0x56) {
+        // GS V m, or GS V m n for the feed-and-cut variants
+        flushPending();
+        lines.push({ kind: 'cut' });
+        i += n >= 65 ? 4 : 3;
+      } else if (command === 0x6b) {
+        // GS k m n d1..dn (function B)
+        const length = content[i + 3] ?? 0;
+        const data = content.subarray(i + 4, i + 4 + length).toString('latin1');
+        flushPending();
+        lines.push({ kind: 'barcode', align, data: data.replace(/^\{[ABC]/, '').replace(/\{\{/g, '{') });
+        afterBlock = true;
+        i += 4 + length;
+      } else if (command === 0x76 && n === 0x30) {
+        // GS v 0 m xL xH yL yH d1..dk
+        const bytesPerRow = content[i + 4] + content[i + 5] * 256;
+        const height = content[i + 6] + content[i + 7] * 256;
+        flushPending();
+        lines.push({ kind: 'image', width: bytesPerRow * 8, height });
+        i += 8 + bytesPerRow * height;
+      } else if (command === 0x28 && n === 0x6b) {
+        // GS ( k pL pH cn fn [data]
+        const length = content[i + 3] + content[i + 4] * 256;
+        const fn = content[i + 6];
+        if (fn === 0x50) {
+          qrData = content.subarray(i + 8, i + 5 + length).toString('utf8');
+        } else if (fn === 0x51) {
+          flushPending();
+          lines.push({ kind: 'qr', align, data: qrData });
+          afterBlock = true;
+        }
+        i += 5 + length;
+      } else {
+        i += 3;
+      }
+    } else {
+      let end = i;
+      while (end < content.length && content[end] !== LF && content[end] !== ESC && content[end] !== GS) {
+        end += 1;
+      }
+      addText(decodeText(content.subarray(i, end), codePage));
+      i = end;
+    }
+  }
+
+  flushPending();
+
+  return lines;
+}
+
+// Each character takes `width` columns; extra columns are filled with spaces
+function spanColumns(span: PreviewSpan): number {
+  return span.text.length * span.width;
+}
+
+/**
+ * Split spans into printed lines of at most `columns`, as the printer wraps them.
+ */
+function wrapSpans(spans: PreviewSpan[], columns: number): PreviewSpan[][] {
+  const rows: PreviewSpan[][] = [[]];
+  let used = 0;
+
+  for (const span of spans) {
+    let rest = span.text;
+
+    while (rest.length > 0) {
+      const fits = Math.max(1, Math.floor((columns - used) / span.width));
+      if (used > 0 && used + span.width > columns) {
+        rows.push([]);
+        used = 0;
+        continue;
+      }
+      const part = rest.slice(0, fits);
+      rows[rows.length - 1].push({ ...span, text: part });
+      used += part.length * span.width;
+      rest = rest.slice(part.length);
+    }
+  }
+
+  return rows;
+}
+
+function alignOffset(align: TextAlign, used: number, columns: number): number {
+  const free = Math.max(0, columns - used);
+  if (align === 'center') return Math.floor(free / 2);
+  if (align === 'right') return free;
+  return 0;
+}
+
+function centerText(text: string, columns: number): string {
+  return ' '.repeat(Math.max(0, Math.floor((columns - text.length) / 2))) + text;
+}
+
+/**
+ * Plain text preview: double width characters are followed by a space, lines are
+ * aligned within the paper width and trailing spaces are dropped.
+ */
+export function renderPreviewText(content: Buffer, columns: number): string {
+  const out: string[] = [];
+
+  for (const line of parseEscPos(content)) {
+    if (line.kind === 'cut') {
+      out.push('- '.repeat(Math.ceil(columns / 2)).slice(0, columns));
+      continue;
+    }
+    if (line.kind === 'barcode') {
+      out.push(centerText(`[BARCODE ${line.data}]`, columns));
+      continue;
+    }
+    if (line.kind === 'qr') {
+      out.push(centerText(`[QR ${line.data}]`, columns));
+      continue;
+    }
+    if (line.kind === 'image') {
+      out.push(centerText(`[IMAGE ${line.width}x${line.height}]`, columns));
+      continue;
+    }
+
+    for (const row of wrapSpans(line.spans, columns)) {
+      const used = row.reduce((sum, span) => sum + spanColumns(span), 0);
+      const text = row
+        .map((span) => [...span.text].map((char) => char + ' '.repeat(span.width - 1)).join(''))
+        .join('');
+      out.push((' '.repeat(alignOffset(line.align, used, columns)) + text).trimEnd());
+    }
+  }
+
+  return out.join('\n').trimEnd() + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function spanHtml(span: PreviewSpan): string {
+  const styles: string[] = [];
+  if (span.bold) styles.push('font-weight:bold');
+  if (span.underline) styles.push('text-decoration:underline');
+  if (span.height > 1) styles.push(`font-size:${span.height}em`);
+  if (span.width !== span.height) {
+    styles.push(`display:inline-block;transform:scaleX(${span.width / span.height});transform-origin:left`);
+  }
+
+  const text = escapeHtml(span.text);
+  return styles.length > 0 ? `<span style="${styles.join(';')}">${text}</span>` : text;
+}
+
+/**
+ * HTML preview: a monospace block as wide as the paper, with emphasis and sizes
+ * as inline styles so it can be dropped into any page.
+ */
+export function renderPreviewHtml(content: Buffer, columns: number): string {
+  const out: string[] = [];
+
+  for (const line of parseEscPos(content)) {
+    if (line.kind === 'cut') {
+      out.push('<hr class="escpos-cut" style="border:none;border-top:1px dashed #999">');
+      continue;
+    }
+    if (line.kind === 'barcode' || line.kind === 'qr') {
+      const label = line.kind === 'qr' ? 'QR' : 'BARCODE';
+      out.push(
+        `<div class="escpos-${line.kind}" style="text-align:center" data-value="${escapeHtml(line.data)}">` +
+        `[${label} ${escapeHtml(line.data)}]</div>`
+      );
+      continue;
+    }
+    if (line.kind === 'image') {
+      out.push(
+        `<div class="escpos-image" style="text-align:center" data-width="${line.width}" data-height="${line.height}">` +
+        `[IMAGE ${line.width}x${line.height}]</div>`
+      );
+      continue;
+    }
+
+    const body = line.spans.map(spanHtml).join('');
+    out.push(`<div style="text-align:${line.align};white-space:pre-wrap;min-height:1.2em">${body}</div>`);
+  }
+
+  return (
+    `<div class="escpos-preview" style="font-family:monospace;width:${columns}ch;line-height:1.2">` +
+    out.join('') +
+    '</div>'
+  );
+}
@@ -0,0 +1,249 @@
+import { and, asc, desc, eq, inArray, lte, min } from 'drizzle-orm';
+import { db } from '../db';
+import { printJobs } from '../db/schema';
+import { envInt } from '../utils/env';
+import { sendToPrinter, PrintTarget } from './printers';
+import {
+  CANCELLABLE_PRINT_JOB_STATUSES,
+  RETRYABLE_PRINT_JOB_STATUSES,
+  PrintJobStatus,
+} from './printJobStatus';
+
+export type PrintJob = typeof printJobs.$inferSelect;
+
+// Job as returned by the API: the raw bytes are replaced by their size
+export type PrintJobSummary = Omit<PrintJob, 'content'> & { size: number };
+
+export function getMaxAttempts(): number {
+  return Math.max(1, envInt('PRINT_MAX_ATTEMPTS', 5));
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: doubles every time,
+ * starting at PRINT_RETRY_BASE_MS and capped at PRINT_RETRY_MAX_MS.
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const base = envInt('PRINT_RETRY_BASE_MS', 5000);
+  const max = envInt('PRINT_RETRY_MAX_MS', 5 * 60 * 1000);
+  return Math.min(base * 2 ** Math.max(0, attempts - 1), max);
+}
+
+export function summarizePrintJob({ content, ...job }: PrintJob): PrintJobSummary {
+  return { ...job, size: content.length };
+}
+
+// === Background worker ===
+// Only runs after startPrintQueue() (called when the server starts), so tests and
+// scripts never print from a timer behind their back.
+
+let workerStarted = false;
+let workerTimer: NodeJS.Timeout | null = null;
+
+async function scheduleNextRun(): Promise<void> {
+  if (!workerStarted) return;
+
+  const [next] = await db
+    .select({ at: min(printJobs.nextAttemptAt) })
+    .from(printJobs)
+    .where(eq(printJobs.status, 'queued'));
+
+  if (workerTimer) {
+    clearTimeout(workerTimer);
+    workerTimer = null;
+  }
+
+  if (!next?.at) return;
+
+  const delay = Math.max(0, next.at.getTime() - Date.now());
+  workerTimer = setTimeout(() => {
+    workerTimer = null;
+    processPrintQueue().catch((error) => console.error('Print queue failed:', error));
+  }, delay);
+  workerTimer.unref();
+}
+
+/**
+ * Start retrying queued jobs in the background. Jobs left in `printing` by a
+ * crash are queued again; they may print twice, which beats not printing at all.
+ */
+export async function startPrintQueue(): Promise<void> {
+  workerStarted = true;
+
+  await db
+    .update(printJobs)
+    .set({ status: 'queued', nextAttemptAt: new Date() })
+    .where(eq(printJobs.status, 'printing'));
+
+  await processPrintQueue();
+}
+
+export function stopPrintQueue(): void {
+  workerStarted = false;
+  if (workerTimer) {
+    clearTimeout(workerTimer);
+    workerTimer = null;
+  }
+}
+
+/**
+ * Attempt every queued job that is due, oldest first.
+ */
+export async function processPrintQueue(): Promise<void> {
+  const due = await db
+    .select({ id: printJobs.id })
+    .from(printJobs)
+    .where(and(eq(printJobs.status, 'queued'), lte(printJobs.nextAttemptAt, new Date())))
+    .orderBy(asc(printJobs.nextAttemptAt), asc(printJobs.id));
+
+  for (const { id } of due) {
+    await attemptPrintJob(id);
+  }
+
+  await scheduleNextRun();
+}
+
+// === Jobs ===
+
+/**
+ * Try to print a queued job once. The job is claimed with a conditional update,
+ * so the request handler and the background worker never print it twice.
+ * Returns the job as it is afterwards.
+ */
+export async function attemptPrintJob(id: number): Promise<PrintJob | undefined> {
+  const [job] = await db
+    .update(printJobs)
+    .set({ status: 'printing' })
+    .where(and(eq(printJobs.id, id), eq(printJobs.status, 'queued')))
+    .returning();
+
+  if (!job) {
+    return db.query.printJobs.findFirst({ where: eq(printJobs.id, id) });
+  }
+
+  const attempts = job.attempts + 1;
+
+  try {
+    await sendToPrinter(job, job.content);
+
+    const [done] = await db
+      .update(printJobs)
+      .set({ status: 'done', attempts, lastError: null, printedAt: new Date() })
+      .where(eq(printJobs.id, id))
+      .returning();
+    return done;
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const retry = attempts < job.maxAttempts;
+
+    const [failed] = await db
+      .update(printJobs)
+      .set({
+        status: retry ? 'queued' : 'failed',
+        attempts,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+      })
+      .where(eq(printJobs.id, id))
+      .returning();
+
+    if (retry) {
+      await scheduleNextRun();
+    }
+
+    return failed;
+  }
+}
+
+/**
+ * Store a print job and make the first attempt right away, so the caller knows
+ * whether it printed. Failed attempts are retried in the background.
+ */
+export async function submitPrintJob(data: {
+  kind: string;
+  description: string;
+  target: PrintTarget;
+  content: Buffer;
+  orderId?: number | null;
+  reprintOf?: number | null;
+  createdBy?: string | null;
+}): Promise<PrintJob> {
+  const { target, ...job } = data;
+
+  const [inserted] = await db
+    .insert(printJobs)
+    .values({
+      ...job,
+      printerId: target.printerId,
+      devicePath: target.devicePath,
+      status: 'queued',
+      maxAttempts: getMaxAttempts(),
+      nextAttemptAt: new Date(),
+    })
+    .returning();
+
+  return (await attemptPrintJob(inserted.id)) ?? inserted;
+}
+
+export async function listPrintJobs(filters: {
+  status?: PrintJobStatus;
+  orderId?: number;
+  limit: number;
+}): Promise<PrintJob[]> {
+  return db.query.printJobs.findMany({
+    where: and(
+      filters.status ? eq(printJobs.status, filters.status) : undefined,
+      filters.orderId ? eq(printJobs.orderId, filters.orderId) : undefined
+    ),
+    orderBy: [desc(printJobs.createdAt), desc(printJobs.id)],
+    limit: filters.limit,
+  });
+}
+
+/**
+ * Queue a failed or cancelled job again with a fresh set of attempts and try it now.
+ * Returns null if the job is in a state that can't be retried.
+ */
+export async function retryPrintJob(id: number): Promise<PrintJob | null> {
+  const [job] = await db
+    .update(printJobs)
+    .set({ status: 'queued', attempts: 0, lastError: null, nextAttemptAt: new Date() })
+    .where(and(eq(printJobs.id, id), inArray(printJobs.status, RETRYABLE_PRINT_JOB_STATUSES)))
+    .returning();
+
+  if (!job) return null;
+
+  return (await attemptPrintJob(id)) ?? job;
+}
+
+/**
+ * Cancel a job that hasn't printed yet. Returns null if it is printing or finished.
+ */
+export async function cancelPrintJob(id: number): Promise<PrintJob | null> {
+  const [job] = await db
+    .update(printJobs)
+    .set({ status: 'cancelled' })
+    .where(and(eq(printJobs.id, id), inArray(printJobs.status, CANCELLABLE_PRINT_JOB_STATUSES)))
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Print the exact bytes of an earlier job again, as a new job. Goes to the same
+ * printer unless another target is given.
+ */
+export async function reprintJob(
+  original: PrintJob,
+  createdBy?: string | null,
+  target?: PrintTarget
+): Promise<PrintJob> {
+  return submitPrintJob({
+    kind: original.kind,
+    description: original.description,
+    target: target ?? { printerId: original.printerId, devicePath: original.devicePath },
+    content: original.content,
+    orderId: original.orderId,
+    reprintOf: original.id,
+    createdBy,
+  });
+}
@@ -1,12 +1,78 @@
-import { promises as fs } from 'fs';
+import { constants as fsConstants, promises as fs } from 'fs';
+import net from 'net';
+import { CodePage } from './codePage';
+import { EscPosBuilder } from './escpos';
+import { formatOrderCode, getOrderQrContent } from './orderCodes';
+import { summarizePayments } from './payments';
+import { computeOrderTotals, priceLine, OrderTotals, PricingItem } from './pricing';
+import { PrepList } from './prepList';
+
+export const PRINTER_TRANSPORTS = ['device', 'tcp'] as const;
+export const PRINTER_ROLES = ['receipt', 'kitchen', 'label'] as const;
+export const PAPER_WIDTHS = [58, 80] as const; // mm
+
+export type PrinterTransport = (typeof PRINTER_TRANSPORTS)[number];
+export type PrinterRole = (typeof PRINTER_ROLES)[number];
+
+/**
+ * Characters per line in the printer's default font (Font A, 12x24).
+ */
+export function getPrinterColumns(paperWidth: number): number {
+  return paperWidth <= 58 ? 32 : 48;
+}
+
+// Documents that can be printed for an order, and the printer role each one goes to
+export const ORDER_DOCUMENTS = ['receipt', 'kitchen_ticket', 'pickup_label'] as const;
+
+export type OrderDocument = (typeof ORDER_DOCUMENTS)[number];
+
+export const ORDER_DOCUMENT_PRINTER_ROLES: Record<OrderDocument, PrinterRole> = {
+  receipt: 'receipt',
+  kitchen_ticket: 'kitchen',
+  pickup_label: 'label',
+};
+
+// Scannable codes a document can carry, see orderCodes.ts
+export const PRINT_CODES = ['qr', 'barcode'] as const;
+
+export type PrintCode = (typeof PRINT_CODES)[number];
+
+const DEFAULT_DOCUMENT_CODES: Record<OrderDocument, PrintCode[]> = {
+  receipt: ['qr', 'barcode'],
+  kitchen_ticket: [],
+  pickup_label: ['barcode'],
+};
+
+/**
+ * Codes printed on a document: PRINT_CODES_RECEIPT, PRINT_CODES_KITCHEN_TICKET or
+ * PRINT_CODES_PICKUP_LABEL as a comma separated list ("qr,barcode", or "none").
+ */
+export function getDocumentCodes(document: OrderDocument): PrintCode[] {
+  const value = process.env[`PRINT_CODES_${document.toUpperCase()}`];
+
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_DOCUMENT_CODES[document];
+  }
+
+  return value
+    .split(',')
+    .map((code) => code.trim().toLowerCase())
+    .filter((code): code is PrintCode => (PRINT_CODES as readonly string[]).includes(code));
+}
 
 export type PrinterOrderItem = {
   name: string;
   quantity: number;
   price: number; // integer (IDR)
+  lineTotal: number; // integer (IDR), from the pricing module
   notes?: string[];
 };
 
+export type PrinterOrderPayment = {
+  method: string;
+  amount: number; // integer (IDR)
+};
+
 export type PrinterOrder = {
   id: number;
   customer: string;
@@ -14,8 +80,50 @@ export type PrinterOrder = {
   pickupDate?: string | null;
   notes?: string | null;
   items: PrinterOrderItem[];
+  totals: OrderTotals;
+  payments?: PrinterOrderPayment[]; // omitted: the payment lines are left off
+};
+
+export type ShopInfo = {
+  name: string;
+  address?: string;
+  phone?: string;
+  footer: string;
 };
 
+export type PrinterOutputOptions = {
+  columns?: number; // characters per line, see getPrinterColumns()
+  shop?: ShopInfo; // receipt header and footer, defaults to getShopInfo()
+  codePage?: CodePage; // the printer's character set, see codePage.ts
+  codes?: PrintCode[]; // defaults to getDocumentCodes()
+  logo?: Buffer; // GS v 0 raster above the receipt header, see printLogo.ts
+};
+
+// Used when the printer's paper width is unknown (PRINTER_DEVICE_PATH)
+export const DEFAULT_PRINTER_COLUMNS = 30;
+
+export function getShopInfo(): ShopInfo {
+  return {
+    name: process.env.SHOP_NAME || 'LNQ',
+    address: process.env.SHOP_ADDRESS || undefined,
+    phone: process.env.SHOP_PHONE || undefined,
+    footer: process.env.RECEIPT_FOOTER || 'Thank you',
+  };
+}
+
+function printCodes(doc: EscPosBuilder, orderId: number, codes: PrintCode[]): void {
+  if (codes.length === 0) return;
+
+  doc.feed().align('center');
+  if (codes.includes('barcode')) {
+    doc.barcode(formatOrderCode(orderId), { height: 60, hri: 'below' });
+  }
+  if (codes.includes('qr')) {
+    doc.qr(getOrderQrContent(orderId), { size: 5 });
+  }
+  doc.align('left');
+}
+
 function formatPrice(price: number): string {
   // Keep output ASCII-friendly for ESC/POS
   return `Rp${price.toLocaleString('id-ID')}`;
@@ -35,87 +143,426 @@ function formatPrintDate(date: Date | string): string {
   return `${yyyy}-${mm}-${dd} ${hh}:${min}`;
 }
 
-// Adapted from your buildPrinterOutput(order: ParsedOrder)
-export function buildPrinterOutput(order: PrinterOrder): string {
-  const ESC = '\x1B';
-  const GS = '\x1D';
-  const LF = '\x0A';
+/**
+ * Order with its items, products and (optionally) payments, as loaded by the order routes.
+ */
+export type PrintableOrderRow = {
+  id: number;
+  customerName: string;
+  createdAt: Date | null;
+  pickupDate: string | null;
+  notes: string | null;
+  discount: number;
+  fee: number;
+  items: (PricingItem & {
+    itemType: string;
+    productId: number | null;
+    customName: string | null;
+    notes: string | null;
+    product: { name: string; price: number } | null;
+  })[];
+  payments?: PrinterOrderPayment[];
+};
+
+export function toPrinterOrder(order: PrintableOrderRow): PrinterOrder {
+  return {
+    id: order.id,
+    customer: order.customerName,
+    date: order.createdAt ?? new Date(),
+    pickupDate: order.pickupDate ?? null,
+    notes: order.notes ?? null,
+    items: order.items.map((item) => {
+      const { unitPrice, quantity, lineTotal } = priceLine(item);
+      return {
+        name: item.itemType === 'custom'
+          ? item.customName ?? 'Custom Item'
+          : item.product?.name ?? `Product ${item.productId}`,
+        quantity,
+        price: unitPrice,
+        lineTotal,
+        notes: item.notes ? [item.notes] : undefined,
+      };
+    }),
+    totals: computeOrderTotals(order.items, order),
+    payments: order.payments?.map(({ method, amount }) => ({ method, amount })),
+  };
+}
 
-  let out = '';
+/**
+ * Customer receipt: shop header, order number, prices, totals and what has been paid.
+ */
+export function buildCustomerReceipt(order: PrinterOrder, options: PrinterOutputOptions = {}): Buffer {
+  const doc = new EscPosBuilder(options.columns ?? DEFAULT_PRINTER_COLUMNS, options.codePage);
+  const shop = options.shop ?? getShopInfo();
+  const { totals } = order;
 
-  // === INIT ===
-  out += ESC + '@';
+  // === SHOP HEADER ===
+  doc.align('center');
+  if (options.logo) doc.raw(options.logo);
+  doc.size(2).line(shop.name).size(1);
+  if (shop.address) doc.line(shop.address);
+  if (shop.phone) doc.line(shop.phone);
+  doc.feed();
 
-  // === CUSTOMER (BIG) ===
-  out += ESC + 'a' + '\x01'; // center
-  out += GS + '!' + '\x11'; // double width + height
-  out += order.customer + LF + LF;
+  // === ORDER ===
+  doc.align('left');
+  doc.row(`Order #${order.id}`, formatPrintDate(order.date));
+  doc.line(`Customer: ${order.customer}`);
+  if (order.pickupDate) {
+    doc.line(`Pickup: ${order.pickupDate}`);
+  }
 
-  // === RESET → NORMAL ===
-  out += ESC + '@';
-  out += ESC + 'a' + '\x01';
+  // === ITEMS ===
+  doc.separator();
+  for (const item of order.items) {
+    doc.line(item.name);
+    doc.row(`  ${item.quantity} x ${formatPrice(item.price)}`, formatPrice(item.lineTotal));
+    for (const note of item.notes ?? []) {
+      doc.line(`   (${note})`);
+    }
+  }
+  doc.separator();
+
+  // === TOTALS ===
+  if (totals.discount > 0 || totals.fee > 0) {
+    doc.row('SUBTOTAL', formatPrice(totals.subtotal));
+    if (totals.discount > 0) {
+      doc.row('DISKON', `-${formatPrice(totals.discount)}`);
+    }
+    if (totals.fee > 0) {
+      doc.row('BIAYA', formatPrice(totals.fee));
+    }
+  }
+  doc.bold().row('TOTAL', formatPrice(totals.total)).bold(false);
+
+  // === PAYMENTS ===
+  if (order.payments) {
+    const balance = summarizePayments(totals.total, order.payments);
+
+    for (const payment of order.payments) {
+      doc.row(`DIBAYAR (${payment.method})`, formatPrice(payment.amount));
+    }
+    if (balance.outstanding > 0) {
+      doc.bold().row('SISA', formatPrice(balance.outstanding)).bold(false);
+    } else {
+      if (balance.outstanding < 0) {
+        doc.row('KEMBALI', formatPrice(-balance.outstanding));
+      }
+      doc.feed().align('center').bold().line('LUNAS').bold(false).align('left');
+    }
+  }
+
+  if (order.notes) {
+    doc.feed().line('NOTE: ' + order.notes);
+  }
+
+  printCodes(doc, order.id, options.codes ?? getDocumentCodes('receipt'));
+
+  // === FOOTER ===
+  doc.feed().align('center').line(shop.footer).feed(2);
+  doc.cut();
+
+  return doc.build();
+}
 
-  const dateToPrint = order.pickupDate ?? order.date;
-  out += formatPrintDate(dateToPrint) + LF + LF;
+/**
+ * Kitchen ticket: what to make and for whom, in big print, without any prices.
+ */
+export function buildKitchenTicket(order: PrinterOrder, options: PrinterOutputOptions = {}): Buffer {
+  const doc = new EscPosBuilder(options.columns ?? DEFAULT_PRINTER_COLUMNS, options.codePage);
+
+  // === ORDER + CUSTOMER (BIG) ===
+  doc.align('center').size(2).line(`#${order.id}`).line(order.customer).size(1);
+  doc.line(order.pickupDate ? `Pickup: ${order.pickupDate}` : formatPrintDate(order.date));
+  doc.feed();
 
   // === ORDER NOTES ===
+  doc.align('left');
   if (order.notes) {
-    out += ESC + 'a' + '\x00'; // left align
-    out += 'NOTE: ' + order.notes + LF + LF;
+    doc.bold().line('NOTE: ' + order.notes).bold(false).feed();
   }
 
   // === ITEMS ===
-  out += ESC + 'a' + '\x00';
-  out += '------------------------------' + LF;
+  doc.separator();
+  for (const item of order.items) {
+    doc.size(2).line(`${item.quantity}x ${item.name}`).size(1);
+    for (const note of item.notes ?? []) {
+      doc.line(`   (${note})`);
+    }
+  }
+  doc.separator();
+
+  printCodes(doc, order.id, options.codes ?? getDocumentCodes('kitchen_ticket'));
+
+  doc.feed(2).cut();
+
+  return doc.build();
+}
 
-  let total = 0;
+/**
+ * Pickup label stuck on the finished box: who it's for, what's inside, and whether
+ * there is still something to pay at pickup.
+ */
+export function buildPickupLabel(order: PrinterOrder, options: PrinterOutputOptions = {}): Buffer {
+  const doc = new EscPosBuilder(options.columns ?? DEFAULT_PRINTER_COLUMNS, options.codePage);
 
+  doc.align('center').size(2).line(order.customer).size(1);
+  doc.line(`Order #${order.id}`);
+  if (order.pickupDate) {
+    doc.line(`Pickup: ${order.pickupDate}`);
+  }
+
+  doc.align('left').separator();
   for (const item of order.items) {
-    const lineTotal = item.quantity * item.price;
-    total += lineTotal;
+    doc.line(`${item.quantity}x ${item.name}`);
+  }
+  doc.separator();
 
-    // BIG item name
-    out += GS + '!' + '\x11';
-    out += `${item.quantity}x ` + item.name + LF;
+  if (order.payments) {
+    const balance = summarizePayments(order.totals.total, order.payments);
+    doc.align('center').bold();
+    doc.line(balance.outstanding > 0 ? `SISA ${formatPrice(balance.outstanding)}` : 'LUNAS');
+    doc.bold(false);
+  }
 
-    // RESET for small text
-    out += ESC + '@';
+  printCodes(doc, order.id, options.codes ?? getDocumentCodes('pickup_label'));
 
-    // Quantity / price
-    out += ` ${item.quantity} x ${formatPrice(item.price)} = ${formatPrice(lineTotal)}` + LF;
+  doc.feed(2).cut();
 
-    // NOTES (small + indented)
-    if (item.notes?.length) {
-      for (const note of item.notes) {
-        out += `   (${note})` + LF;
+  return doc.build();
+}
+
+export function buildOrderDocument(
+  document: OrderDocument,
+  order: PrinterOrder,
+  options: PrinterOutputOptions = {}
+): Buffer {
+  switch (document) {
+    case 'kitchen_ticket':
+      return buildKitchenTicket(order, options);
+    case 'pickup_label':
+      return buildPickupLabel(order, options);
+    default:
+      return buildCustomerReceipt(order, options);
+  }
+}
+
+export function buildPrepListOutput(prepList: PrepList, options: PrinterOutputOptions = {}): Buffer {
+  const doc = new EscPosBuilder(options.columns ?? DEFAULT_PRINTER_COLUMNS, options.codePage);
+
+  // === TITLE (BIG) ===
+  doc.align('center').size(2).line('PREP LIST').size(1);
+  const range = prepList.from === prepList.to ? prepList.from : `${prepList.from} - ${prepList.to}`;
+  doc.line(range).feed();
+
+  // === PRODUCTS ===
+  doc.align('left').separator();
+
+  if (prepList.products.length === 0 && prepList.customItems.length === 0) {
+    doc.line('No orders');
+  }
+
+  for (const product of prepList.products) {
+    doc.size(2).line(`${product.quantity}x ${product.name}`).size(1);
+
+    for (const note of product.notes) {
+      doc.line(`   ${note.quantity}x (${note.note})`);
+    }
+  }
+
+  // === CUSTOM ITEMS ===
+  if (prepList.customItems.length > 0) {
+    doc.separator().line('CUSTOM');
+
+    for (const item of prepList.customItems) {
+      doc.size(2).line(item.name).size(1);
+      doc.line(`   ${item.customerName} #${item.orderId}`);
+      if (item.notes) {
+        doc.line(`   (${item.notes})`);
       }
     }
   }
 
-  out += '------------------------------' + LF;
+  doc.separator().feed();
+  doc.cut();
 
-  // === TOTAL (BIG) ===
-  out += GS + '!' + '\x11';
-  out += `TOTAL ${formatPrice(total)}` + LF + LF;
+  return doc.build();
+}
 
-  // === RESET ===
-  out += ESC + '@';
-  out += ESC + 'a' + '\x01';
-  out += 'Thank you' + LF + LF;
+/**
+ * Write raw bytes to a printer device (USB or serial). Opening or writing to a hung
+ * device never returns, so like the network path this gives up after `timeoutMs`
+ * and the job goes back to the queue for a retry.
+ */
+export async function writeToPrinterDevice(
+  devicePath: string,
+  content: Buffer,
+  timeoutMs: number = 5000
+): Promise<void> {
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined;
 
-  // === CUT ===
-  out += GS + 'V' + '\x00';
+  const write = (async () => {
+    const handle = await fs.open(devicePath, 'w');
+    try {
+      // Opened too late: the job is already failed and will be retried, printing now would print it twice
+      if (!timedOut) {
+        await handle.write(content, 0, content.length, null);
+      }
+    } finally {
+      await handle.close();
+    }
+  })();
 
-  return out;
-}
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      reject(new Error(`Printer ${devicePath} timed out`));
+    }, timeoutMs);
+  });
+
+  // The blocked call can't be cancelled; whatever it ends with after the timeout is dropped
+  write.catch(() => undefined);
 
-export async function writeToPrinterDevice(devicePath: string, content: string): Promise<void> {
-  const handle = await fs.open(devicePath, 'w');
   try {
-    // latin1/binary keeps 1 char = 1 byte for control codes
-    const buffer = Buffer.from(content, 'latin1');
-    await handle.write(buffer, 0, buffer.length, null);
+    await Promise.race([write, timeout]);
   } finally {
-    await handle.close();
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Send raw bytes to a network printer (raw TCP, usually port 9100). Resolves once
+ * everything has been handed to the socket.
+ */
+export function writeToPrinterSocket(
+  host: string,
+  port: number,
+  content: Buffer,
+  timeoutMs: number = 5000
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(timeoutMs);
+
+    socket.once('connect', () => {
+      socket.end(content, () => resolve());
+    });
+    socket.once('timeout', () => {
+      socket.destroy(new Error(`Printer ${host}:${port} timed out`));
+    });
+    socket.once('error', reject);
+  });
+}
+
+// === Status (DLE EOT) ===
+
+export type PrinterStatus = {
+  reachable: boolean;
+  online: boolean | null; // null when the transport can't report it
+  coverOpen: boolean | null;
+  paperOut: boolean | null;
+  paperLow: boolean | null;
+  error: boolean | null; // the printer reports an error (cutter jam, head overheated)
+  message: string | null; // why it couldn't be reached or asked
+};
+
+// DLE EOT n: 1 = printer, 2 = offline cause, 4 = paper roll sensor
+const STATUS_REQUEST = Buffer.from([0x10, 0x04, 1, 0x10, 0x04, 2, 0x10, 0x04, 4]);
+
+/**
+ * Read the three DLE EOT status bytes (see STATUS_REQUEST).
+ */
+export function parsePrinterStatus(printer: number, offlineCause: number, paper: number): PrinterStatus {
+  // Every status byte has bit 1 and 4 set and bit 0 and 7 clear
+  const valid = [printer, offlineCause, paper].every((byte) => (byte & 0x93) === 0x12);
+
+  if (!valid) {
+    return {
+      reachable: true,
+      online: null,
+      coverOpen: null,
+      paperOut: null,
+      paperLow: null,
+      error: null,
+      message: 'Unexpected status reply',
+    };
   }
+
+  return {
+    reachable: true,
+    online: (printer & 0x08) === 0,
+    coverOpen: (offlineCause & 0x04) !== 0,
+    paperOut: (offlineCause & 0x20) !== 0 || (paper & 0x60) !== 0,
+    paperLow: (paper & 0x0c) !== 0,
+    error: (offlineCause & 0x40) !== 0,
+    message: null,
+  };
+}
+
+function unknownStatus(reachable: boolean, message: string | null): PrinterStatus {
+  return { reachable, online: null, coverOpen: null, paperOut: null, paperLow: null, error: null, message };
+}
+
+/**
+ * Ask a network printer for its real-time status. Never rejects: a printer that
+ * can't be reached or doesn't answer is reported as such.
+ */
+export function queryPrinterSocketStatus(
+  host: string,
+  port: number,
+  timeoutMs: number = 2000
+): Promise<PrinterStatus> {
+  return new Promise((resolve) => {
+    const socket = net.createConnection({ host, port });
+    const reply: number[] = [];
+    let connected = false;
+    let done = false;
+
+    const finish = (status: PrinterStatus) => {
+      if (done) return;
+      done = true;
+      socket.destroy();
+      resolve(status);
+    };
+
+    socket.setTimeout(timeoutMs);
+    socket.once('connect', () => {
+      connected = true;
+      socket.write(STATUS_REQUEST);
+    });
+    socket.on('data', (chunk: Buffer) => {
+      reply.push(...chunk);
+      if (reply.length >= 3) {
+        finish(parsePrinterStatus(reply[0], reply[1], reply[2]));
+      }
+    });
+    socket.once('timeout', () => {
+      finish(connected
+        ? unknownStatus(true, 'No status reply')
+        : unknownStatus(false, `Printer ${host}:${port} timed out`));
+    });
+    socket.once('error', (error) => finish(unknownStatus(false, error.message)));
+    socket.once('close', () => finish(unknownStatus(connected, connected ? 'Connection closed' : 'Not connected')));
+  });
+}
+
+/**
+ * Device files are written to only, so the best we can tell is whether the printer
+ * is plugged in and writable.
+ */
+export async function queryPrinterDeviceStatus(devicePath: string): Promise<PrinterStatus> {
+  try {
+    await fs.access(devicePath, fsConstants.W_OK);
+    return unknownStatus(true, null);
+  } catch (error) {
+    return unknownStatus(false, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Ready to print: reachable and not reporting a problem.
+ */
+export function isPrinterReady(status: PrinterStatus): boolean {
+  return status.reachable && status.online !== false && !status.coverOpen && !status.paperOut && !status.error;
 }
@@ -0,0 +1,214 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { printers } from '../db/schema';
+import { envInt } from '../utils/env';
+import { isCodePage, CodePage, DEFAULT_CODE_PAGE } from './codePage';
+import {
+  getPrinterColumns,
+  isPrinterReady,
+  queryPrinterDeviceStatus,
+  queryPrinterSocketStatus,
+  writeToPrinterDevice,
+  writeToPrinterSocket,
+  PrinterRole,
+  PrinterStatus,
+} from './printer';
+
+export type Printer = typeof printers.$inferSelect;
+
+// Where a job's bytes go: a registered printer, or the legacy PRINTER_DEVICE_PATH
+export type PrintTarget = {
+  printerId: number | null;
+  devicePath: string | null;
+  columns?: number;
+  codePage?: CodePage;
+};
+
+export const DEFAULT_PRINTER_PORT = 9100;
+
+function legacyDevicePath(): string {
+  return process.env.PRINTER_DEVICE_PATH || '/dev/usb/lp0';
+}
+
+function legacyCodePage(): CodePage {
+  const codePage = process.env.PRINTER_CODE_PAGE;
+  return isCodePage(codePage) ? codePage : DEFAULT_CODE_PAGE;
+}
+
+/**
+ * Pick the printer for a print: the one named by the caller, otherwise the first active
+ * printer with the given role, otherwise the legacy PRINTER_DEVICE_PATH.
+ * Returns null if a printer was named but doesn't exist or is inactive.
+ */
+export async function resolvePrintTarget(
+  role: PrinterRole,
+  printerName?: string
+): Promise<PrintTarget | null> {
+  const printer = printerName
+    ? await db.query.printers.findFirst({
+      where: and(eq(printers.name, printerName), eq(printers.active, true)),
+    })
+    : await db.query.printers.findFirst({
+      where: and(eq(printers.role, role), eq(printers.active, true)),
+      orderBy: [asc(printers.id)],
+    });
+
+  if (printer) {
+    return {
+      printerId: printer.id,
+      devicePath: null,
+      columns: getPrinterColumns(printer.paperWidth),
+      codePage: isCodePage(printer.codePage) ? printer.codePage : DEFAULT_CODE_PAGE,
+    };
+  }
+
+  return printerName ? null : { printerId: null, devicePath: legacyDevicePath(), codePage: legacyCodePage() };
+}
+
+function deviceTimeoutMs(): number {
+  return envInt('PRINTER_DEVICE_TIMEOUT_MS', 5000);
+}
+
+/**
+ * Send bytes to a job's target using the printer's transport.
+ */
+export async function sendToPrinter(target: PrintTarget, content: Buffer): Promise<void> {
+  if (target.printerId === null) {
+    if (!target.devicePath) {
+      throw new Error('Print job has no printer');
+    }
+    return writeToPrinterDevice(target.devicePath, content, deviceTimeoutMs());
+  }
+
+  const printer = await db.query.printers.findFirst({
+    where: eq(printers.id, target.printerId),
+  });
+
+  if (!printer) {
+    throw new Error(`Printer ${target.printerId} no longer exists`);
+  }
+
+  if (printer.transport === 'tcp') {
+    if (!printer.host) {
+      throw new Error(`Printer ${printer.name} has no host`);
+    }
+    const timeoutMs = envInt('PRINTER_TCP_TIMEOUT_MS', 5000);
+    return writeToPrinterSocket(printer.host, printer.port ?? DEFAULT_PRINTER_PORT, content, timeoutMs);
+  }
+
+  if (!printer.devicePath) {
+    throw new Error(`Printer ${printer.name} has no device path`);
+  }
+  return writeToPrinterDevice(printer.devicePath, content, deviceTimeoutMs());
+}
+
+export type PrinterStatusReport = {
+  printerId: number | null; // null for PRINTER_DEVICE_PATH
+  name: string;
+  transport: string;
+  role: string | null;
+  ready: boolean;
+  status: PrinterStatus;
+};
+
+// ok: every printer ready, degraded: some are not, error: none are, none: no printers
+export type PrintersHealth = 'ok' | 'degraded' | 'error' | 'none';
+
+function misconfigured(message: string): PrinterStatus {
+  return {
+    reachable: false,
+    online: null,
+    coverOpen: null,
+    paperOut: null,
+    paperLow: null,
+    error: null,
+    message,
+  };
+}
+
+export async function getPrinterStatus(printer: Printer): Promise<PrinterStatus> {
+  const timeoutMs = envInt('PRINTER_STATUS_TIMEOUT_MS', 2000);
+
+  if (printer.transport === 'tcp') {
+    if (!printer.host) {
+      return misconfigured(`Printer ${printer.name} has no host`);
+    }
+    return queryPrinterSocketStatus(printer.host, printer.port ?? DEFAULT_PRINTER_PORT, timeoutMs);
+  }
+
+  if (!printer.devicePath) {
+    return misconfigured(`Printer ${printer.name} has no device path`);
+  }
+  return queryPrinterDeviceStatus(printer.devicePath);
+}
+
+/**
+ * Status of the named printer, or of every active printer. PRINTER_DEVICE_PATH is
+ * included when it is set and no printers are registered. All printers are asked at
+ * the same time.
+ */
+export async function checkPrinters(printerName?: string): Promise<PrinterStatusReport[]> {
+  const registered = await db.query.printers.findMany({
+    where: printerName ? eq(printers.name, printerName) : eq(printers.active, true),
+    orderBy: [asc(printers.name)],
+  });
+
+  const reports = registered.map(async (printer): Promise<PrinterStatusReport> => {
+    const status = await getPrinterStatus(printer);
+    return {
+      printerId: printer.id,
+      name: printer.name,
+      transport: printer.transport,
+      role: printer.role,
+      ready: isPrinterReady(status),
+      status,
+    };
+  });
+
+  if (!printerName && registered.length === 0 && process.env.PRINTER_DEVICE_PATH) {
+    reports.push(
+      queryPrinterDeviceStatus(process.env.PRINTER_DEVICE_PATH).then((status) => ({
+        printerId: null,
+        name: 'default',
+        transport: 'device',
+        role: null,
+        ready: isPrinterReady(status),
+        status,
+      }))
+    );
+  }
+
+  return Promise.all(reports);
+}
+
+export function summarizePrinterHealth(reports: PrinterStatusReport[]): PrintersHealth {
+  if (reports.length === 0) return 'none';
+
+  const ready = reports.filter((report) => report.ready).length;
+  if (ready === reports.length) return 'ok';
+  return ready === 0 ? 'error' : 'degraded';
+}
+
+// /health is public and probed often by load balancers, and network printers tend
+// to take one connection at a time: they are asked at most once per
+// PRINTER_HEALTH_TTL_MS (default one minute), so probes never hold up a print.
+let healthCache: { checkedAt: number; health: Promise<PrintersHealth> } | null = null;
+
+/**
+ * Summary of every active printer for /health, from a recent check when there is one.
+ */
+export function getPrintersHealth(): Promise<PrintersHealth> {
+  const ttlMs = envInt('PRINTER_HEALTH_TTL_MS', 60000);
+
+  if (!healthCache || Date.now() - healthCache.checkedAt >= ttlMs) {
+    const health = checkPrinters().then(summarizePrinterHealth);
+    healthCache = { checkedAt: Date.now(), health };
+
+    // A check that failed is tried again on the next call
+    health.catch(() => {
+      if (healthCache?.health === health) healthCache = null;
+    });
+  }
+
+  return healthCache.health;
+}
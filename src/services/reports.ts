@@ -0,0 +1,119 @@
+import { and, desc, eq, ne, sql, SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { orders, orderItems, products } from '../db/schema';
+
+// All report maths happens in SQL. Money is always based on priceAtSale / customPrice
+// (what the customer actually paid), never on the current products.price.
+
+export type ReportRange = {
+  from: string; // YYYY-MM-DD, inclusive, in `timezone`
+  to: string; // YYYY-MM-DD, inclusive, in `timezone`
+  timezone: string; // IANA name, e.g. Asia/Jakarta
+};
+
+export type RevenueGrouping = 'day' | 'week' | 'month';
+
+// created_at is stored as a UTC timestamp without time zone
+function localCreatedAt(timezone: string): SQL {
+  return sql`((${orders.createdAt} at time zone 'UTC') at time zone ${timezone})`;
+}
+
+const lineRevenue = sql`case when ${orderItems.itemType} = 'custom'
+  then coalesce(${orderItems.customPrice}, ${orderItems.priceAtSale}, 0)
+  else coalesce(${orderItems.priceAtSale}, 0) * coalesce(${orderItems.amount}, 1) end`;
+
+function salesInRange(range: ReportRange): SQL | undefined {
+  const localDate = sql`${localCreatedAt(range.timezone)}::date`;
+  return and(
+    ne(orders.status, 'cancelled'),
+    sql`${localDate} >= ${range.from}::date`,
+    sql`${localDate} <= ${range.to}::date`
+  );
+}
+
+// Per-order subtotal of all items, so order-level discount/fee can be applied once per order
+function orderSubtotals() {
+  return db
+    .select({
+      orderId: orderItems.orderId,
+      subtotal: sql<number>`sum(${lineRevenue})`.as('subtotal'),
+    })
+    .from(orderItems)
+    .groupBy(orderItems.orderId)
+    .as('order_subtotals');
+}
+
+export async function getRevenueByPeriod(range: ReportRange, groupBy: RevenueGrouping) {
+  const subtotals = orderSubtotals();
+  const subtotal = sql`coalesce(${subtotals.subtotal}, 0)`;
+
+  // Grouping/ordering by position: the time zone is a bind parameter, so repeating the
+  // expression in GROUP BY would not be recognised as the same expression by Postgres.
+  return db
+    .select({
+      period: sql<string>`to_char(date_trunc(${groupBy}, ${localCreatedAt(range.timezone)}), 'YYYY-MM-DD')`,
+      orderCount: sql<number>`count(${orders.id})`.mapWith(Number),
+      revenue: sql<number>`coalesce(sum(${subtotal} - least(${orders.discount}, ${subtotal}) + ${orders.fee}), 0)`.mapWith(Number),
+    })
+    .from(orders)
+    .leftJoin(subtotals, eq(subtotals.orderId, orders.id))
+    .where(salesInRange(range))
+    .groupBy(sql`1`)
+    .orderBy(sql`1`);
+}
+
+export async function getTopProducts(range: ReportRange, sortBy: 'quantity' | 'revenue', limit: number) {
+  const quantity = sql<number>`coalesce(sum(${orderItems.amount}), 0)`.mapWith(Number);
+  const revenue = sql<number>`coalesce(sum(${lineRevenue}), 0)`.mapWith(Number);
+
+  return db
+    .select({
+      productId: orderItems.productId,
+      name: products.name,
+      quantity,
+      revenue,
+      orderCount: sql<number>`count(distinct ${orders.id})`.mapWith(Number),
+    })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .innerJoin(products, eq(orderItems.productId, products.id))
+    .where(and(eq(orderItems.itemType, 'product'), salesInRange(range)))
+    .groupBy(orderItems.productId, products.name)
+    .orderBy(desc(sortBy === 'quantity' ? quantity : revenue), desc(sortBy === 'quantity' ? revenue : quantity))
+    .limit(limit);
+}
+
+export async function getCustomItemShare(range: ReportRange) {
+  const [row] = await db
+    .select({
+      customRevenue: sql<number>`coalesce(sum(case when ${orderItems.itemType} = 'custom' then ${lineRevenue} else 0 end), 0)`.mapWith(Number),
+      itemRevenue: sql<number>`coalesce(sum(${lineRevenue}), 0)`.mapWith(Number),
+      customItemCount: sql<number>`count(*) filter (where ${orderItems.itemType} = 'custom')`.mapWith(Number),
+    })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .where(salesInRange(range));
+
+  return {
+    ...row,
+    share: row.itemRevenue > 0 ? row.customRevenue / row.itemRevenue : 0,
+  };
+}
+
+export async function getAverageOrderValue(range: ReportRange) {
+  const subtotals = orderSubtotals();
+  const subtotal = sql`coalesce(${subtotals.subtotal}, 0)`;
+  const orderRevenue = sql`${subtotal} - least(${orders.discount}, ${subtotal}) + ${orders.fee}`;
+
+  const [row] = await db
+    .select({
+      orderCount: sql<number>`count(${orders.id})`.mapWith(Number),
+      revenue: sql<number>`coalesce(sum(${orderRevenue}), 0)`.mapWith(Number),
+      averageOrderValue: sql<number>`coalesce(round(avg(${orderRevenue})), 0)`.mapWith(Number),
+    })
+    .from(orders)
+    .leftJoin(subtotals, eq(subtotals.orderId, orders.id))
+    .where(salesInRange(range));
+
+  return row;
+}
@@ -0,0 +1,28 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { settings } from '../db/schema';
+
+export async function getSetting(key: string): Promise<string | null> {
+  const setting = await db.query.settings.findFirst({ where: eq(settings.key, key) });
+  return setting?.value ?? null;
+}
+
+/**
+ * Store a setting, or remove it with `null`. Returns the value it had before.
+ */
+export async function setSetting(key: string, value: string | null): Promise<string | null> {
+  return db.transaction(async (tx) => {
+    const previous = await tx.query.settings.findFirst({ where: eq(settings.key, key) });
+
+    if (value === null) {
+      await tx.delete(settings).where(eq(settings.key, key));
+    } else {
+      await tx
+        .insert(settings)
+        .values({ key, value })
+        .onConflictDoUpdate({ target: settings.key, set: { value, updatedAt: new Date() } });
+    }
+
+    return previous?.value ?? null;
+  });
+}
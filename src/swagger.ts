@@ -17,6 +17,23 @@ const options = {
         description: 'Development server',
       },
     ],
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Staff session token from POST /api/auth/login',
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'API key for devices and integrations (also accepted as a bearer token)',
+        },
+      },
+    },
+    // Either scheme is accepted; public endpoints override this with `security: []`
+    security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
   },
   // Important: resolve relative to this module so Swagger works in both:
   // - dev:   src/swagger.ts -> src/routes/*.ts
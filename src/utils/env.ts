@@ -0,0 +1,5 @@
+// Non-negative integer from the environment, or the fallback when unset or invalid
+export function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
@@ -0,0 +1,46 @@
+import { summarizePayments } from '../services/payments';
+import { computeOrderTotals, priceLine } from '../services/pricing';
+
+// Utility to remove null fields from order items for correct API shape
+export function cleanOrderItem(item: any) {
+  const cleaned: any = { ...item };
+  // Remove fields that are null (but keep 0 and false)
+  Object.keys(cleaned).forEach((key) => {
+    if (cleaned[key] === null) {
+      delete cleaned[key];
+    }
+  });
+  // For custom items, ensure customPrice is always a number (default 0 if missing)
+  if (cleaned.itemType === 'custom') {
+    if (typeof cleaned.customPrice !== 'number') {
+      cleaned.customPrice = 0;
+    }
+  }
+  // Recursively clean product if present
+  if (cleaned.product && typeof cleaned.product === 'object') {
+    Object.keys(cleaned.product).forEach((key) => {
+      if (cleaned.product[key] === null) {
+        delete cleaned.product[key];
+      }
+    });
+  }
+  return cleaned;
+}
+
+export function cleanOrder(order: any) {
+  if (!order) return order;
+  const rawItems: any[] = Array.isArray(order.items) ? order.items : [];
+  const items = rawItems.map((item) => {
+    const { unitPrice, lineTotal } = priceLine(item);
+    return { ...cleanOrderItem(item), unitPrice, lineTotal };
+  });
+  const totals = computeOrderTotals(rawItems, order);
+  const orderPayments = Array.isArray(order.payments) ? order.payments : [];
+  return {
+    ...order,
+    items,
+    totals,
+    payments: orderPayments,
+    balance: summarizePayments(totals.total, orderPayments),
+  };
+}
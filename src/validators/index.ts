@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { CODE_PAGES } from '../services/codePage';
+import { pickVariantForWidth, IMAGE_FORMATS, IMAGE_VARIANTS } from '../services/imageVariants';
+import { ORDER_STATUSES } from '../services/orderStatus';
+import { PAYMENT_METHODS } from '../services/payments';
+import { ROLES } from '../services/permissions';
+import { PRINT_JOB_STATUSES } from '../services/printJobStatus';
+import { ORDER_DOCUMENTS, PAPER_WIDTHS, PRINTER_ROLES, PRINTER_TRANSPORTS } from '../services/printer';
 
 export const createProductSchema = z.object({
   name: z.string().min(1, 'Product name is required'),
@@ -11,7 +18,7 @@ export const updateProductSchema = z.object({
   name: z.string().min(1, 'Product name is required').optional(),
   description: z.string().optional(),
   price: z.number().int().positive('Price must be a positive number').optional(),
-  imageId: z.string().optional(),
+  imageId: z.string().min(1).nullable().optional(),
 });
 
 const productItemSchema = z.object({
@@ -19,7 +26,8 @@ const productItemSchema = z.object({
   productId: z.number().int().positive('Product ID must be positive'),
   amount: z.number().int().positive('Amount must be positive'),
   notes: z.string().optional(),
-  priceAtSale: z.number().optional(),
+  // Only used for callers with orders:price, see buildOrderItemValues()
+  priceAtSale: z.number().int().nonnegative('Price at sale must be zero or positive').optional(),
 });
 
 const customItemSchema = z.object({
@@ -29,25 +37,276 @@ const customItemSchema = z.object({
   notes: z.string().optional(),
 });
 
+const phoneSchema = z.string().regex(/^\+?[0-9][0-9\s-]{5,19}$/, 'Phone number must contain 6-20 digits');
+
+export const createCustomerSchema = z.object({
+  name: z.string().min(1, 'Customer name is required'),
+  phone: phoneSchema.optional(),
+  whatsapp: phoneSchema.optional(),
+  address: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export const updateCustomerSchema = z.object({
+  name: z.string().min(1, 'Customer name is required').optional(),
+  phone: z.union([phoneSchema, z.null()]).optional(),
+  whatsapp: z.union([phoneSchema, z.null()]).optional(),
+  address: z.union([z.string(), z.null()]).optional(),
+  notes: z.union([z.string(), z.null()]).optional(),
+});
+
 export const createOrderSchema = z.object({
-  customerName: z.string().min(1, 'Customer name is required'),
+  customerName: z.string().min(1, 'Customer name is required').optional(),
+  customerId: z.number().int().positive('Customer ID must be positive').optional(),
+  customer: createCustomerSchema.optional(),
   pickupDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
   notes: z.string().optional(),
+  discount: z.number().int().nonnegative('Discount must be zero or positive').optional(),
+  fee: z.number().int().nonnegative('Fee must be zero or positive').optional(),
   items: z.array(
     z.discriminatedUnion('itemType', [productItemSchema, customItemSchema])
   ).min(1, 'At least one item is required'),
-});
+})
+  .refine((data) => data.customerName !== undefined || data.customerId !== undefined || data.customer !== undefined, {
+    message: 'Customer name is required',
+    path: ['customerName'],
+  })
+  .refine((data) => data.customerId === undefined || data.customer === undefined, {
+    message: 'Provide either customerId or customer, not both',
+    path: ['customer'],
+  });
 
 export const updateOrderSchema = z.object({
   customerName: z.string().min(1, 'Customer name is required').optional(),
+  customerId: z.union([z.number().int().positive('Customer ID must be positive'), z.null()]).optional(),
   pickupDate: z.union([z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'), z.null()]).optional(),
   notes: z.string().optional(),
+  discount: z.number().int().nonnegative('Discount must be zero or positive').optional(),
+  fee: z.number().int().nonnegative('Fee must be zero or positive').optional(),
   items: z.array(
     z.discriminatedUnion('itemType', [productItemSchema, customItemSchema])
   ).min(1, 'At least one item is required').optional(),
 });
 
+export const orderStatusTransitionSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  changedBy: z.string().min(1, 'changedBy must not be empty').optional(),
+  notes: z.string().optional(),
+  allowOutstandingBalance: z.boolean().optional(),
+});
+
+const dateQuerySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export const ORDER_SORT_FIELDS = ['createdAt', 'pickupDate', 'customerName'] as const;
+
+export const listOrdersQuerySchema = z.object({
+  status: z.union([z.string(), z.array(z.string())]).optional(),
+  page: z.coerce.number().int().positive('Page must be positive').default(1),
+  limit: z.coerce.number().int().min(1).max(100, 'Limit must be at most 100').default(20),
+  sortBy: z.enum(ORDER_SORT_FIELDS).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  pickupFrom: dateQuerySchema.optional(),
+  pickupTo: dateQuerySchema.optional(),
+  createdFrom: dateQuerySchema.optional(),
+  createdTo: dateQuerySchema.optional(),
+  customer: z.string().min(1).optional(),
+  customerId: z.coerce.number().int().positive('Customer ID must be positive').optional(),
+  productId: z.coerce.number().int().positive('Product ID must be positive').optional(),
+  hasCustomItems: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+});
+
+export const scanOrderQuerySchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(512),
+});
+
+export const prepListQuerySchema = z
+  .object({
+    date: dateQuerySchema.optional(),
+    from: dateQuerySchema.optional(),
+    to: dateQuerySchema.optional(),
+  })
+  .refine((q) => q.date !== undefined || q.from !== undefined, {
+    message: 'Either date or from is required',
+    path: ['date'],
+  })
+  .transform((q) => {
+    const from = (q.date ?? q.from) as string;
+    return { from, to: q.date ?? q.to ?? from };
+  })
+  .refine((q) => q.from <= q.to, {
+    message: 'from must be on or before to',
+    path: ['to'],
+  });
+
+export const createPaymentSchema = z.object({
+  amount: z.number().int().positive('Amount must be positive'),
+  method: z.enum(PAYMENT_METHODS),
+  reference: z.string().optional(),
+  receivedBy: z.string().optional(),
+  notes: z.string().optional(),
+  paidAt: z.string().datetime({ offset: true, message: 'paidAt must be an ISO 8601 date-time' }).optional(),
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const createUserSchema = z.object({
+  username: z
+    .string()
+    .regex(/^[a-z0-9._-]{3,64}$/, 'Username must be 3-64 lowercase letters, digits, dots, dashes or underscores'),
+  name: z.string().min(1, 'Name is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  role: z.enum(ROLES).default('cashier'),
+});
+
+export const updateUserSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  password: z.string().min(8, 'Password must be at least 8 characters').optional(),
+  role: z.enum(ROLES).optional(),
+  active: z.boolean().optional(),
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  role: z.enum(ROLES).default('cashier'),
+});
+
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
+export type CustomerInput = z.infer<typeof createCustomerSchema>;
+export type UpdateCustomerInput = z.infer<typeof updateCustomerSchema>;
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
 export type UpdateOrderInput = z.infer<typeof updateOrderSchema>;
+
+export type OrderStatusTransitionInput = z.infer<typeof orderStatusTransitionSchema>;
+export type CreatePaymentInput = z.infer<typeof createPaymentSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type CreateUserInput = z.infer<typeof createUserSchema>;
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type ListOrdersQuery = z.infer<typeof listOrdersQuerySchema>;
+export type PrepListQuery = z.infer<typeof prepListQuerySchema>;
+
+export const listCustomersQuerySchema = z.object({
+  search: z.string().min(1).optional(),
+});
+
+function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const reportQuerySchema = z
+  .object({
+    from: dateQuerySchema,
+    to: dateQuerySchema,
+    timezone: z
+      .string()
+      .refine(isValidTimeZone, 'Unknown time zone')
+      .default(() => process.env.REPORT_TIMEZONE || 'Asia/Jakarta'),
+  })
+  .refine((q) => q.from <= q.to, {
+    message: 'from must be on or before to',
+    path: ['to'],
+  });
+
+export const revenueReportQuerySchema = reportQuerySchema.and(
+  z.object({
+    groupBy: z.enum(['day', 'week', 'month']).default('day'),
+  })
+);
+
+export const topProductsReportQuerySchema = reportQuerySchema.and(
+  z.object({
+    sortBy: z.enum(['quantity', 'revenue']).default('quantity'),
+    limit: z.coerce.number().int().min(1).max(100, 'Limit must be at most 100').default(10),
+  })
+);
+
+export const listPrintJobsQuerySchema = z.object({
+  status: z.enum(PRINT_JOB_STATUSES).optional(),
+  orderId: z.coerce.number().int().positive('Order ID must be positive').optional(),
+  limit: z.coerce.number().int().min(1).max(200, 'Limit must be at most 200').default(50),
+});
+
+export const printTargetQuerySchema = z.object({
+  printer: z.string().min(1).optional(),
+});
+
+export const printOrderQuerySchema = z.object({
+  document: z.enum(ORDER_DOCUMENTS).default('receipt'),
+});
+
+export const previewOrderQuerySchema = printOrderQuerySchema.extend({
+  format: z.enum(['json', 'text', 'html']).default('json'),
+});
+
+export const printerNameSchema = z
+  .string()
+  .regex(/^[a-z0-9_-]{1,64}$/, 'Name must be 1-64 lowercase letters, digits, dashes or underscores');
+
+const paperWidthSchema = z
+  .number()
+  .refine((width) => (PAPER_WIDTHS as readonly number[]).includes(width), 'Paper width must be 58 or 80');
+
+export const createPrinterSchema = z
+  .object({
+    name: printerNameSchema,
+    transport: z.enum(PRINTER_TRANSPORTS),
+    devicePath: z.string().min(1).nullable().optional(),
+    host: z.string().min(1).nullable().optional(),
+    port: z.number().int().min(1).max(65535).nullable().optional(),
+    paperWidth: paperWidthSchema.default(80),
+    role: z.enum(PRINTER_ROLES).default('receipt'),
+    codePage: z.enum(CODE_PAGES).default('cp437'),
+    active: z.boolean().default(true),
+  })
+  .superRefine((printer, ctx) => {
+    if (printer.transport === 'device' && !printer.devicePath) {
+      ctx.addIssue({ code: 'custom', path: ['devicePath'], message: 'devicePath is required for device printers' });
+    }
+    if (printer.transport === 'tcp' && !printer.host) {
+      ctx.addIssue({ code: 'custom', path: ['host'], message: 'host is required for tcp printers' });
+    }
+  });
+
+export const updatePrinterSchema = z.object({
+  name: printerNameSchema.optional(),
+  transport: z.enum(PRINTER_TRANSPORTS).optional(),
+  devicePath: z.string().min(1).nullable().optional(),
+  host: z.string().min(1).nullable().optional(),
+  port: z.number().int().min(1).max(65535).nullable().optional(),
+  paperWidth: paperWidthSchema.optional(),
+  role: z.enum(PRINTER_ROLES).optional(),
+  codePage: z.enum(CODE_PAGES).optional(),
+  active: z.boolean().optional(),
+});
+
+export type CreatePrinterInput = z.infer<typeof createPrinterSchema>;
+export type UpdatePrinterInput = z.infer<typeof updatePrinterSchema>;
+
+export const imageQuerySchema = z
+  .object({
+    variant: z.enum(IMAGE_VARIANTS).optional(),
+    width: z.coerce.number().int().min(1, 'Width must be positive').max(4096, 'Width must be at most 4096').optional(),
+    format: z.enum(IMAGE_FORMATS).default('original'),
+  })
+  .refine((q) => q.variant === undefined || q.width === undefined, {
+    message: 'Use either variant or width',
+    path: ['width'],
+  })
+  .transform((q) => ({
+    variant: q.variant ?? (q.width !== undefined ? pickVariantForWidth(q.width) : 'original'),
+    format: q.format,
+  }));
+
+export const imageCleanupQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).transform((v) => v === 'true').default(false),
+  graceHours: z.coerce.number().int().min(1, 'Grace period must be at least 1 hour').optional(),
+});